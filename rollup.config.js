@@ -9,6 +9,7 @@ export default [
       file: 'dist/index.js', // archivo final JS
       format: 'esm',          // ESM para Node
     },
+    external: [/^node:/],     // módulos nativos de Node
     plugins: [
       typescript({
         tsconfig: './tsconfig.json',
@@ -0,0 +1,73 @@
+/**
+ * Combined cancellation signal for a single SDK call
+ */
+export interface RequestSignal {
+    /** Signal passed down to `fetch` (undefined when no timeout or signal is set) */
+    signal: AbortSignal | undefined
+    /** Whether the call was aborted because the timeout elapsed */
+    timedOut: () => boolean
+    /** Clear the timeout and detach listeners */
+    cleanup: () => void
+}
+
+/**
+ * Combine an optional caller signal and an optional timeout into one signal
+ *
+ * @param timeoutMs - Timeout in milliseconds (0 or undefined disables it)
+ * @param signal - Caller-provided AbortSignal
+ */
+export function createRequestSignal(timeoutMs?: number, signal?: AbortSignal): RequestSignal {
+    if (!timeoutMs && !signal) {
+        return { signal: undefined, timedOut: () => false, cleanup: () => {} }
+    }
+
+    const controller = new AbortController()
+    let didTimeout = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const onAbort = () => controller.abort(signal?.reason)
+
+    if (signal) {
+        if (signal.aborted) {
+            controller.abort(signal.reason)
+        } else {
+            signal.addEventListener('abort', onAbort, { once: true })
+        }
+    }
+
+    if (timeoutMs && timeoutMs > 0 && !controller.signal.aborted) {
+        timer = setTimeout(() => {
+            didTimeout = true
+            controller.abort()
+        }, timeoutMs)
+    }
+
+    return {
+        signal: controller.signal,
+        timedOut: () => didTimeout,
+        cleanup: () => {
+            if (timer) clearTimeout(timer)
+            signal?.removeEventListener('abort', onAbort)
+        },
+    }
+}
+
+/**
+ * Wait for a promise, rejecting early with the signal's reason if it is aborted
+ * The promise itself keeps running, so other callers waiting on it are not affected
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason)
+
+        if (signal.aborted) {
+            onAbort()
+        } else {
+            signal.addEventListener('abort', onAbort, { once: true })
+        }
+
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+    })
+}
@@ -1,3 +1,7 @@
+import type { InvoiceValidationIssue } from './validation'
+import type { BatchStatus } from './types/batch.types'
+import type { ApiTokenResponse } from './types/index'
+
 /**
  * Base authentication error
  */
@@ -36,8 +40,9 @@ export class TokenExpiredError extends AuthError {
 
 /**
  * Network error
+ * Thrown when the request never got an HTTP response (connection reset, DNS failure, etc.)
  */
-export class NetworkError extends AuthError {
+export class NetworkError extends Error {
     constructor(message = 'Network request failed') {
         super(message)
         this.name = 'NetworkError'
@@ -66,3 +71,390 @@ export class OAuthError extends AuthError {
         Object.setPrototypeOf(this, OAuthError.prototype)
     }
 }
+
+/**
+ * Request timeout error
+ * Thrown when a request exceeds the configured `timeoutMs`
+ */
+export class TimeoutError extends Error {
+    constructor(
+        message = 'Request timed out',
+        public timeoutMs?: number,
+    ) {
+        super(message)
+        this.name = 'TimeoutError'
+        Object.setPrototypeOf(this, TimeoutError.prototype)
+    }
+}
+
+/**
+ * Request aborted error
+ * Thrown when a request is cancelled through its `AbortSignal`
+ */
+export class AbortError extends Error {
+    constructor(message = 'Request was aborted') {
+        super(message)
+        this.name = 'AbortError'
+        Object.setPrototypeOf(this, AbortError.prototype)
+    }
+}
+
+/**
+ * Local invoice validation error
+ * Thrown by `store()` with `validate: true` before any request is sent
+ */
+export class InvoiceValidationError extends Error {
+    constructor(
+        message: string,
+        public issues: InvoiceValidationIssue[],
+    ) {
+        super(message)
+        this.name = 'InvoiceValidationError'
+        Object.setPrototypeOf(this, InvoiceValidationError.prototype)
+    }
+}
+
+/**
+ * Base webhook error
+ */
+export class WebhookError extends Error {
+    constructor(message = 'Invalid webhook') {
+        super(message)
+        this.name = 'WebhookError'
+        Object.setPrototypeOf(this, WebhookError.prototype)
+    }
+}
+
+/**
+ * Webhook signature error
+ * Thrown when the signature header is missing, malformed or does not match
+ */
+export class WebhookSignatureError extends WebhookError {
+    constructor(message = 'Webhook signature verification failed') {
+        super(message)
+        this.name = 'WebhookSignatureError'
+        Object.setPrototypeOf(this, WebhookSignatureError.prototype)
+    }
+}
+
+/**
+ * Webhook timestamp error
+ * Thrown when the signed timestamp is outside the allowed tolerance (possible replay)
+ */
+export class WebhookTimestampError extends WebhookError {
+    constructor(message = 'Webhook timestamp outside the tolerance window') {
+        super(message)
+        this.name = 'WebhookTimestampError'
+        Object.setPrototypeOf(this, WebhookTimestampError.prototype)
+    }
+}
+
+/**
+ * Webhook payload error
+ * Thrown when a correctly signed body is not a valid event
+ */
+export class WebhookPayloadError extends WebhookError {
+    constructor(message = 'Invalid webhook payload') {
+        super(message)
+        this.name = 'WebhookPayloadError'
+        Object.setPrototypeOf(this, WebhookPayloadError.prototype)
+    }
+}
+
+/**
+ * Batch status change not allowed from the current status
+ */
+export class BatchTransitionError extends Error {
+    constructor(
+        public from: BatchStatus,
+        public to: BatchStatus,
+        message = `Batch cannot move from ${from} to ${to}`,
+    ) {
+        super(message)
+        this.name = 'BatchTransitionError'
+        Object.setPrototypeOf(this, BatchTransitionError.prototype)
+    }
+}
+
+/**
+ * Member change that would leave a workspace without an owner
+ */
+export class LastOwnerError extends Error {
+    constructor(
+        public workspaceId: string,
+        message = 'A workspace must keep at least one owner',
+    ) {
+        super(message)
+        this.name = 'LastOwnerError'
+        Object.setPrototypeOf(this, LastOwnerError.prototype)
+    }
+}
+
+/**
+ * The replacement token was created but the old one could not be revoked
+ * `newToken` holds the replacement, which is only shown once
+ */
+export class ApiTokenRotationError extends Error {
+    constructor(
+        public tokenId: string,
+        public newToken: ApiTokenResponse,
+        public cause?: unknown,
+        message = `API token ${tokenId} was replaced by ${newToken.id} but could not be revoked`,
+    ) {
+        super(message)
+        this.name = 'ApiTokenRotationError'
+        Object.setPrototypeOf(this, ApiTokenRotationError.prototype)
+    }
+}
+
+/**
+ * A polled resource did not reach the expected state in time
+ * `lastValue` holds the last fetched value
+ */
+export class WaitTimeoutError<T = unknown> extends TimeoutError {
+    constructor(
+        message: string,
+        timeoutMs: number,
+        public lastValue?: T,
+    ) {
+        super(message, timeoutMs)
+        this.name = 'WaitTimeoutError'
+        Object.setPrototypeOf(this, WaitTimeoutError.prototype)
+    }
+}
+
+/**
+ * Field-level validation error returned by the API
+ */
+export interface FieldError {
+    /** Field path (e.g. `taxLines.0.taxRate`), when the API reports it */
+    field?: string
+    /** Error message */
+    message: string
+}
+
+/**
+ * Request context attached to API errors
+ */
+export interface ApiErrorContext {
+    /** Parsed response body */
+    body?: unknown
+    /** Value of the `x-request-id` response header */
+    requestId?: string | null
+    /** Requested endpoint (e.g. `/invoice/store`) */
+    endpoint?: string
+    /** HTTP method */
+    method?: string
+}
+
+/**
+ * Base error for non-2xx API responses
+ * Separate from `AuthError`, which only covers authentication failures
+ */
+export class InvoApiError extends Error {
+    public status: number
+    public body: unknown
+    public requestId: string | null
+    public endpoint?: string
+    public method?: string
+
+    constructor(message: string, status: number, context: ApiErrorContext = {}) {
+        super(message)
+        this.name = 'InvoApiError'
+        this.status = status
+        this.body = context.body
+        this.requestId = context.requestId ?? null
+        this.endpoint = context.endpoint
+        this.method = context.method
+        Object.setPrototypeOf(this, InvoApiError.prototype)
+    }
+}
+
+/**
+ * Validation error (400 / 422)
+ */
+export class ValidationError extends InvoApiError {
+    public fieldErrors: FieldError[]
+
+    constructor(
+        message = 'Validation failed',
+        status = 422,
+        context: ApiErrorContext = {},
+        fieldErrors: FieldError[] = [],
+    ) {
+        super(message, status, context)
+        this.name = 'ValidationError'
+        this.fieldErrors = fieldErrors
+        Object.setPrototypeOf(this, ValidationError.prototype)
+    }
+}
+
+/**
+ * Forbidden error (403)
+ */
+export class ForbiddenError extends InvoApiError {
+    constructor(message = 'Forbidden', context: ApiErrorContext = {}) {
+        super(message, 403, context)
+        this.name = 'ForbiddenError'
+        Object.setPrototypeOf(this, ForbiddenError.prototype)
+    }
+}
+
+/**
+ * Not found error (404)
+ */
+export class NotFoundError extends InvoApiError {
+    constructor(message = 'Resource not found', context: ApiErrorContext = {}) {
+        super(message, 404, context)
+        this.name = 'NotFoundError'
+        Object.setPrototypeOf(this, NotFoundError.prototype)
+    }
+}
+
+/**
+ * Conflict error (409)
+ * Returned for duplicates, e.g. an existing `externalId` or `invoiceNumber`
+ */
+export class ConflictError extends InvoApiError {
+    constructor(message = 'Conflict', context: ApiErrorContext = {}) {
+        super(message, 409, context)
+        this.name = 'ConflictError'
+        Object.setPrototypeOf(this, ConflictError.prototype)
+    }
+}
+
+/**
+ * Rate limit error (429)
+ */
+export class RateLimitError extends InvoApiError {
+    /** Delay requested by the `Retry-After` header, in milliseconds */
+    public retryAfterMs: number | null
+
+    constructor(
+        message = 'Too many requests',
+        context: ApiErrorContext = {},
+        retryAfterMs: number | null = null,
+    ) {
+        super(message, 429, context)
+        this.name = 'RateLimitError'
+        this.retryAfterMs = retryAfterMs
+        Object.setPrototypeOf(this, RateLimitError.prototype)
+    }
+}
+
+/**
+ * Server error (5xx)
+ */
+export class ServerError extends InvoApiError {
+    constructor(message = 'Internal server error', status = 500, context: ApiErrorContext = {}) {
+        super(message, status, context)
+        this.name = 'ServerError'
+        Object.setPrototypeOf(this, ServerError.prototype)
+    }
+}
+
+/**
+ * Check whether an error reports an already existing resource
+ * (409 Conflict, or an API message mentioning a duplicate)
+ */
+export function isDuplicateError(error: unknown): error is InvoApiError {
+    if (error instanceof ConflictError) return true
+    return (
+        error instanceof InvoApiError &&
+        error.status < 500 &&
+        /duplicate|already exists|ya existe/i.test(error.message)
+    )
+}
+
+/**
+ * Check whether a failed call may succeed if attempted again later
+ * Network failures, timeouts, rate limits, 5xx and expired sessions are transient;
+ * validation, other 4xx and credential errors are permanent (a 401 that survives the
+ * SDK's own re-login means the credentials are wrong)
+ */
+export function isTransientError(error: unknown): boolean {
+    if (error instanceof InvoApiError) {
+        return error.status >= 500 || error.status === 408 || error.status === 429
+    }
+    if (error instanceof InvoiceValidationError) {
+        return false
+    }
+    return (
+        error instanceof NetworkError ||
+        error instanceof TimeoutError ||
+        error instanceof AbortError ||
+        error instanceof TokenExpiredError
+    )
+}
+
+/**
+ * Extract field errors from an API error body
+ * Supports arrays of strings, arrays of `{ field|property, message|constraints }`
+ * and `{ field: message | message[] }` maps
+ */
+export function parseFieldErrors(errors: unknown): FieldError[] {
+    if (!errors) return []
+
+    if (Array.isArray(errors)) {
+        return errors.flatMap((item): FieldError[] => {
+            if (typeof item === 'string') {
+                return [{ message: item }]
+            }
+            if (item && typeof item === 'object') {
+                const field = item.field ?? item.property ?? item.path
+                if (item.constraints && typeof item.constraints === 'object') {
+                    return Object.values(item.constraints).map((message) => ({
+                        field,
+                        message: String(message),
+                    }))
+                }
+                return [{ field, message: String(item.message ?? JSON.stringify(item)) }]
+            }
+            return [{ message: String(item) }]
+        })
+    }
+
+    if (typeof errors === 'object') {
+        return Object.entries(errors).flatMap(([field, messages]) =>
+            (Array.isArray(messages) ? messages : [messages]).map((message) => ({
+                field,
+                message: String(message),
+            })),
+        )
+    }
+
+    return [{ message: String(errors) }]
+}
+
+/**
+ * Build the matching `InvoApiError` subclass for a non-2xx response
+ */
+export function createApiError(
+    status: number,
+    message: string,
+    context: ApiErrorContext = {},
+    retryAfterMs: number | null = null,
+): InvoApiError {
+    const body = context.body as { errors?: unknown; message?: unknown } | undefined
+
+    switch (true) {
+        case status === 400 || status === 422: {
+            const fieldErrors = parseFieldErrors(
+                body?.errors ?? (Array.isArray(body?.message) ? body?.message : undefined),
+            )
+            return new ValidationError(message, status, context, fieldErrors)
+        }
+        case status === 403:
+            return new ForbiddenError(message, context)
+        case status === 404:
+            return new NotFoundError(message, context)
+        case status === 409:
+            return new ConflictError(message, context)
+        case status === 429:
+            return new RateLimitError(message, context, retryAfterMs)
+        case status >= 500:
+            return new ServerError(message, status, context)
+        default:
+            return new InvoApiError(message, status, context)
+    }
+}
@@ -18,26 +18,114 @@
 // Main SDK
 export { InvoSDK } from './sdk'
 
+// Pagination
+export { Paginator, paginate, MAX_PAGE_SIZE } from './pagination'
+export type { PageFetcher, ToArrayOptions } from './pagination'
+
+// Polling
+export { pollUntil } from './polling'
+export type { PollOptions } from './polling'
+
+// Resources
+export { InvoicesResource, FINAL_INVOICE_STATUSES } from './resources/invoices'
+export type { WaitForStatusOptions } from './resources/invoices'
+export { BatchesResource, BATCH_STATUS_TRANSITIONS, canTransitionBatch } from './resources/batches'
+export type { SetBatchStatusOptions, WaitForBatchOptions } from './resources/batches'
+export { ProcessingErrorsResource } from './resources/errors'
+export { WorkspacesResource } from './resources/workspaces'
+export { WorkspaceMembersResource, getMemberPermissionIssue } from './resources/workspace-members'
+export type { WorkspaceMemberOptions } from './resources/workspace-members'
+export { CertificatesResource, getCertificateDaysUntilExpiry } from './resources/certificates'
+export { ApiTokensResource, getApiTokenLifetimeDays } from './resources/api-tokens'
+
 // Types
 export type {
     // SDK Config
     InvoSDKConfig,
+    HttpMethod,
+    RetryConfig,
+    RequestOptions,
+    StoreOptions,
+    StoreAndWaitOptions,
+    StoreAndWaitResult,
+    InvoCredentials,
+    ApiTokenCredentials,
+    PasswordCredentials,
+    OAuthCredentials,
+    OAuthProvider,
     // Custom types
     DecodedToken,
     CreateInvoiceResult,
     InvoiceReaderResult,
+    CreateApiTokenDto,
+    ApiTokenResponse,
+    ApiTokenListItem,
+    PaginationQuery,
+    PaginatedResponse,
+    InvoiceStatus,
+    InvoiceType,
+    InvoiceListQuery,
+    Invoice,
+    SubmitInvoiceResult,
+    BatchStatus,
+    BatchListQuery,
+    Batch,
+    ProcessingErrorListQuery,
+    ProcessingErrorInvoice,
+    ProcessingError,
+    ProcessingErrorGroup,
+    WorkspaceRole,
+    Workspace,
+    WorkspaceMember,
+    CertificateFile,
+    CertificateInfo,
+    StoredSession,
+    TokenStore,
+    InvoiceWebhookEventType,
+    BatchWebhookEventType,
+    WebhookEventType,
+    InvoiceWebhookError,
+    InvoiceWebhookData,
+    InvoiceStatusWebhookPayload,
+    BatchWebhookData,
+    WebhookEventBase,
+    InvoiceWebhookEvent,
+    BatchWebhookEvent,
+    WebhookEvent,
+    WebhookHeaders,
+    OutboxEntryStatus,
+    OutboxEntry,
+    OutboxStore,
+    OutboxStatus,
+    OutboxDrainResult,
+    StoreManyOptions,
+    StoreManySuccess,
+    StoreManyFailure,
+    StoreManySkipped,
+    StoreManyItemResult,
+    StoreManyProgress,
+    StoreManyResult,
     // Auto-generated API types
     UserDto,
     LoginDto,
     LoginResponseDto,
+    WorkspaceDto,
+    SwitchWorkspaceDto,
+    CreateWorkspaceDto,
+    UpdateWorkspaceDto,
+    AddMemberDto,
+    UpdateMemberRoleDto,
+    UploadCertificateDto,
     OAuthCallbackDto,
     InvoiceTaxLineDto,
     CreateInvoiceDto,
+    UpdateInvoiceDto,
     UpdateBatchStatusDto,
     MakeupPDFDto,
     MakeupPDFBrandDto,
     MakeupPDFClientDto,
     MakeupPDFBusinessDto,
+    MakeupPDFConceptDto,
 } from './types'
 
 // Errors
@@ -48,7 +136,106 @@ export {
     NetworkError,
     OAuthError,
     TokenExpiredError,
+    TimeoutError,
+    AbortError,
+    InvoApiError,
+    ValidationError,
+    ForbiddenError,
+    NotFoundError,
+    ConflictError,
+    RateLimitError,
+    ServerError,
+    InvoiceValidationError,
+    WebhookError,
+    WebhookSignatureError,
+    WebhookTimestampError,
+    WebhookPayloadError,
+    BatchTransitionError,
+    LastOwnerError,
+    ApiTokenRotationError,
+    WaitTimeoutError,
+    isTransientError,
+    isDuplicateError,
 } from './errors'
+export type { FieldError, ApiErrorContext } from './errors'
+
+// Validation
+export {
+    validateInvoice,
+    ALLOWED_TAX_RATES,
+    ALLOWED_SURCHARGE_RATES,
+    FORBIDDEN_INVOICE_NUMBER_CHARS,
+} from './validation'
+export type {
+    InvoiceValidationCode,
+    InvoiceValidationIssue,
+    InvoiceValidationResult,
+} from './validation'
+
+// Webhooks
+export {
+    constructEvent,
+    computeWebhookSignature,
+    signWebhookPayload,
+    WEBHOOK_SIGNATURE_HEADER,
+    DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+    createWebhookHandler,
+    MemoryWebhookEventStore,
+    createNodeWebhookHandler,
+    createExpressWebhookHandler,
+    createFastifyWebhookHandler,
+    createFastifyWebhookPlugin,
+} from './webhooks'
+export type {
+    ConstructEventOptions,
+    WebhookRawBody,
+    WebhookHandler,
+    WebhookHandlerOptions,
+    WebhookHandlerResult,
+    WebhookEventStore,
+    MemoryWebhookEventStoreOptions,
+    ExpressLikeRequest,
+    ExpressLikeResponse,
+    FastifyLikeRequest,
+    FastifyLikeReply,
+    FastifyLikeInstance,
+} from './webhooks'
+
+// Token stores
+export { MemoryTokenStore, FileTokenStore, getTokenStoreKey } from './token-store'
+export type { FileTokenStoreOptions } from './token-store'
+
+// Outbox
+export { InvoiceOutbox, MemoryOutboxStore, FileOutboxStore } from './outbox'
+export type { InvoiceOutboxOptions, FileOutboxStoreOptions } from './outbox'
+
+// Invoice builder
+export { InvoiceBuilder } from './invoice-builder'
+export type {
+    InvoiceConceptLine,
+    InvoiceBuilderData,
+    InvoiceBuilderPDFOptions,
+    InvoiceTotals,
+} from './invoice-builder'
+
+// Tax ID validation
+export {
+    normalizeTaxId,
+    validateSpanishTaxId,
+    validateEuVatNumber,
+    validateTaxId,
+    isValidTaxId,
+    EU_VAT_COUNTRIES,
+} from './tax-id'
+export type { TaxIdKind, TaxIdValidationResult } from './tax-id'
 
 // Utilities
-export { decodeJWT, getSecondsUntilExpiration, isTokenExpired, isValidEmail } from './utils'
+export {
+    buildQueryString,
+    decodeJWT,
+    getSecondsUntilExpiration,
+    isTokenExpired,
+    isValidEmail,
+    roundAmount,
+    getInvoiceSeries,
+} from './utils'
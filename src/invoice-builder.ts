@@ -0,0 +1,290 @@
+import { roundAmount } from './utils'
+import type {
+    CreateInvoiceDto,
+    InvoiceTaxLineDto,
+    MakeupPDFConceptDto,
+    MakeupPDFDto,
+} from './types/api.types'
+
+/**
+ * Concept line added to an `InvoiceBuilder`
+ */
+export interface InvoiceConceptLine {
+    /** Concept description */
+    name: string
+    /** Quantity */
+    quantity: number
+    /** Unit price before taxes */
+    unitPrice: number
+    /**
+     * Discount percentage applied to the line (0-100)
+     * @default 0
+     */
+    discountPercent?: number
+    /**
+     * Tax type: 01=IVA, 02=IPSI, 03=IGIC, 04=Others
+     * @default "01"
+     */
+    taxType?: InvoiceTaxLineDto['taxType']
+    /** Tax rate (percentage) */
+    taxRate: number
+    /** Equivalence surcharge rate (percentage) */
+    surchargeRate?: number
+    /** Exemption reason (E1-E6) for exempt operations */
+    taxExemptionReason?: InvoiceTaxLineDto['taxExemptionReason']
+    /** Tax regime key */
+    regimeKey?: InvoiceTaxLineDto['regimeKey']
+}
+
+/**
+ * Invoice header data for an `InvoiceBuilder`
+ * `taxLines` and `totalAmount` are computed from the concept lines
+ */
+export type InvoiceBuilderData = Omit<CreateInvoiceDto, 'taxLines' | 'totalAmount'>
+
+/**
+ * Computed invoice totals
+ */
+export interface InvoiceTotals {
+    /** Sum of line amounts before discounts */
+    gross: number
+    /** Sum of line discounts */
+    discount: number
+    /** Taxable base (gross minus discounts) */
+    subtotal: number
+    /** Total tax amount */
+    tax: number
+    /** Total equivalence surcharge amount */
+    surcharge: number
+    /** Invoice total (base + tax + surcharge) */
+    total: number
+}
+
+/**
+ * PDF fields that the builder does not compute
+ * `id` and `date` default to the invoice number and issue date
+ */
+export type InvoiceBuilderPDFOptions = Omit<
+    MakeupPDFDto,
+    | 'id'
+    | 'date'
+    | 'concepts'
+    | 'subtotal'
+    | 'tax_value'
+    | 'tax_percent'
+    | 'surcharge_value'
+    | 'surcharge_percent'
+    | 'total'
+> &
+    Partial<Pick<MakeupPDFDto, 'id' | 'date'>>
+
+/**
+ * Amounts of a single concept line, rounded to 2 decimals
+ */
+interface LineAmounts {
+    gross: number
+    discount: number
+    net: number
+}
+
+function lineAmounts(line: InvoiceConceptLine): LineAmounts {
+    const gross = roundAmount(line.quantity * line.unitPrice)
+    const discount = roundAmount((gross * (line.discountPercent ?? 0)) / 100)
+    return { gross, discount, net: roundAmount(gross - discount) }
+}
+
+/**
+ * Builds a `CreateInvoiceDto` and its matching `MakeupPDFDto` from concept lines
+ *
+ * Lines are grouped into one tax line per tax type, rate, surcharge rate,
+ * exemption reason and regime key. Line amounts are rounded to 2 decimals and
+ * tax and surcharge amounts are rounded once per tax line, so the registered
+ * invoice and the PDF always show the same figures.
+ *
+ * @example
+ * ```typescript
+ * const builder = new InvoiceBuilder({
+ *   issueDate: new Date().toISOString(),
+ *   invoiceNumber: 'FAC-2024-001',
+ *   externalId: 'order-12345',
+ *   customerName: 'Cliente SL',
+ *   customerTaxId: 'B12345674',
+ *   emitterName: 'Mi Empresa SL',
+ *   emitterTaxId: 'B87654321',
+ * })
+ *   .addLine({ name: 'Consultoría', quantity: 10, unitPrice: 100, taxRate: 21 })
+ *   .addLine({ name: 'Libro', quantity: 2, unitPrice: 25, discountPercent: 10, taxRate: 4 })
+ *
+ * const result = await sdk.store(builder.toCreateInvoiceDto())
+ * const pdf = await sdk.pdf(builder.toMakeupPDFDto({ branding, client, business, ... }))
+ * ```
+ */
+export class InvoiceBuilder {
+    private readonly data: InvoiceBuilderData
+    private readonly lines: InvoiceConceptLine[] = []
+
+    constructor(data: InvoiceBuilderData) {
+        this.data = { ...data }
+    }
+
+    /**
+     * Add a concept line
+     */
+    addLine(line: InvoiceConceptLine): this {
+        if (!Number.isFinite(line.quantity) || !Number.isFinite(line.unitPrice)) {
+            throw new Error(`Invalid quantity or unit price for concept "${line.name}"`)
+        }
+
+        const discount = line.discountPercent ?? 0
+        if (discount < 0 || discount > 100) {
+            throw new Error(`Discount for concept "${line.name}" must be between 0 and 100`)
+        }
+
+        this.lines.push({ ...line })
+        return this
+    }
+
+    /**
+     * Add several concept lines
+     */
+    addLines(lines: InvoiceConceptLine[]): this {
+        lines.forEach((line) => this.addLine(line))
+        return this
+    }
+
+    /**
+     * Concept lines added so far
+     */
+    getLines(): InvoiceConceptLine[] {
+        return this.lines.map((line) => ({ ...line }))
+    }
+
+    /**
+     * Group concept lines into tax lines
+     */
+    getTaxLines(): InvoiceTaxLineDto[] {
+        const groups = new Map<string, { line: InvoiceConceptLine; base: number }>()
+
+        for (const line of this.lines) {
+            const key = [
+                line.taxType ?? '01',
+                line.taxRate,
+                line.surchargeRate ?? '',
+                line.taxExemptionReason ?? '',
+                line.regimeKey ?? '',
+            ].join('|')
+
+            const group = groups.get(key)
+            const { net } = lineAmounts(line)
+            if (group) {
+                group.base = roundAmount(group.base + net)
+            } else {
+                groups.set(key, { line, base: net })
+            }
+        }
+
+        return Array.from(groups.values()).map(({ line, base }) => {
+            const taxLine: InvoiceTaxLineDto = {
+                taxRate: line.taxRate,
+                baseAmount: base,
+                taxAmount: roundAmount((base * line.taxRate) / 100),
+            }
+
+            if (line.taxType) taxLine.taxType = line.taxType
+            if (line.surchargeRate) {
+                taxLine.surchargeRate = line.surchargeRate
+                taxLine.surchargeAmount = roundAmount((base * line.surchargeRate) / 100)
+            }
+            if (line.taxExemptionReason) taxLine.taxExemptionReason = line.taxExemptionReason
+            if (line.regimeKey) taxLine.regimeKey = line.regimeKey
+
+            return taxLine
+        })
+    }
+
+    /**
+     * Compute the invoice totals
+     */
+    getTotals(): InvoiceTotals {
+        const taxLines = this.getTaxLines()
+        let gross = 0
+        let discount = 0
+
+        for (const line of this.lines) {
+            const amounts = lineAmounts(line)
+            gross = roundAmount(gross + amounts.gross)
+            discount = roundAmount(discount + amounts.discount)
+        }
+
+        const sum = (values: number[]) => values.reduce((acc, value) => roundAmount(acc + value), 0)
+        const subtotal = sum(taxLines.map((line) => line.baseAmount))
+        const tax = sum(taxLines.map((line) => line.taxAmount))
+        const surcharge = sum(taxLines.map((line) => line.surchargeAmount ?? 0))
+
+        return {
+            gross,
+            discount,
+            subtotal,
+            tax,
+            surcharge,
+            total: roundAmount(subtotal + tax + surcharge),
+        }
+    }
+
+    /**
+     * Build the payload for `sdk.store()`
+     */
+    toCreateInvoiceDto(): CreateInvoiceDto {
+        if (this.lines.length === 0) {
+            throw new Error('Cannot build an invoice without concept lines')
+        }
+
+        return {
+            ...this.data,
+            totalAmount: this.getTotals().total,
+            taxLines: this.getTaxLines(),
+        }
+    }
+
+    /**
+     * Build the payload for `sdk.pdf()` with the same concepts and totals
+     *
+     * @param options - Branding, client, business and texts for the PDF
+     */
+    toMakeupPDFDto(options: InvoiceBuilderPDFOptions): MakeupPDFDto {
+        const totals = this.getTotals()
+        const percent = (value: number) =>
+            totals.subtotal === 0 ? 0 : roundAmount((value / totals.subtotal) * 100)
+
+        const concepts: MakeupPDFConceptDto[] = this.lines.map((line) => {
+            const amounts = lineAmounts(line)
+            return {
+                name: line.name,
+                price: line.unitPrice,
+                quantity: line.quantity,
+                subtotal: amounts.gross,
+                discount_value: amounts.discount,
+                discount_percent: line.discountPercent ?? 0,
+                total: amounts.net,
+            }
+        })
+
+        // Show the nominal rate when every line shares it, the effective rate otherwise
+        const taxRates = new Set(this.lines.map((line) => line.taxRate))
+        const surchargeRates = new Set(this.lines.map((line) => line.surchargeRate ?? 0))
+
+        return {
+            ...options,
+            id: options.id ?? this.data.invoiceNumber,
+            date: options.date ?? this.data.issueDate,
+            concepts,
+            subtotal: totals.subtotal,
+            tax_value: totals.tax,
+            tax_percent: taxRates.size === 1 ? [...taxRates][0] : percent(totals.tax),
+            surcharge_value: totals.surcharge,
+            surcharge_percent:
+                surchargeRates.size === 1 ? [...surchargeRates][0] : percent(totals.surcharge),
+            total: totals.total,
+        }
+    }
+}
@@ -0,0 +1,150 @@
+import { mkdir, open, readFile, rename } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { OutboxEntry, OutboxStore } from '../types/outbox.types'
+
+/**
+ * Line written to the JSONL log
+ * Each line is either the latest snapshot of an entry or a removal marker
+ */
+type OutboxLogLine = { op: 'save'; entry: OutboxEntry } | { op: 'remove'; id: string }
+
+/**
+ * Options for `FileOutboxStore`
+ */
+export interface FileOutboxStoreOptions {
+    /**
+     * Compact the log on load when it holds more than this many lines per live entry
+     * @default 10
+     */
+    compactionRatio?: number
+}
+
+/**
+ * Filesystem outbox store backed by an append-only JSONL file
+ *
+ * Every change is appended and flushed to disk before `save()` resolves, so a crash
+ * never loses an acknowledged entry. A partially written last line (crash mid-write)
+ * is ignored on load. The log is compacted atomically (write + rename).
+ *
+ * @example
+ * ```typescript
+ * const outbox = new InvoiceOutbox(sdk, {
+ *   store: new FileOutboxStore('./data/invo-outbox.jsonl'),
+ * })
+ * ```
+ */
+export class FileOutboxStore implements OutboxStore {
+    private readonly path: string
+    private readonly compactionRatio: number
+    private queue: Promise<unknown> = Promise.resolve()
+
+    constructor(path: string, options: FileOutboxStoreOptions = {}) {
+        this.path = path
+        this.compactionRatio = options.compactionRatio ?? 10
+    }
+
+    async load(): Promise<OutboxEntry[]> {
+        return this.enqueue(async () => {
+            const { entries, lines, clean } = await this.readLog()
+
+            // Rewrite the log if the last write was interrupted, so the next append
+            // doesn't land on the same line as the partial record
+            if (!clean || lines > Math.max(1, entries.size) * this.compactionRatio) {
+                await this.writeSnapshot(Array.from(entries.values()))
+            }
+
+            return Array.from(entries.values())
+        })
+    }
+
+    async save(entry: OutboxEntry): Promise<void> {
+        await this.enqueue(() => this.append({ op: 'save', entry }))
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.enqueue(() => this.append({ op: 'remove', id }))
+    }
+
+    /**
+     * Rewrite the log with only the latest snapshot of each entry
+     */
+    async compact(): Promise<void> {
+        await this.enqueue(async () => {
+            const { entries } = await this.readLog()
+            await this.writeSnapshot(Array.from(entries.values()))
+        })
+    }
+
+    /**
+     * Serialize file operations so appends never interleave
+     */
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation, operation)
+        this.queue = result.catch(() => {})
+        return result
+    }
+
+    private async readLog(): Promise<{
+        entries: Map<string, OutboxEntry>
+        lines: number
+        clean: boolean
+    }> {
+        const entries = new Map<string, OutboxEntry>()
+        let content: string
+
+        try {
+            content = await readFile(this.path, 'utf8')
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { entries, lines: 0, clean: true }
+            }
+            throw error
+        }
+
+        const lines = content.split('\n').filter((line) => line.trim() !== '')
+        for (const line of lines) {
+            let parsed: OutboxLogLine
+            try {
+                parsed = JSON.parse(line)
+            } catch {
+                // Truncated line from an interrupted write
+                continue
+            }
+
+            if (parsed.op === 'save') {
+                entries.set(parsed.entry.id, parsed.entry)
+            } else if (parsed.op === 'remove') {
+                entries.delete(parsed.id)
+            }
+        }
+
+        return { entries, lines: lines.length, clean: content === '' || content.endsWith('\n') }
+    }
+
+    private async append(line: OutboxLogLine): Promise<void> {
+        await mkdir(dirname(this.path), { recursive: true })
+        const handle = await open(this.path, 'a')
+        try {
+            await handle.write(`${JSON.stringify(line)}\n`)
+            await handle.datasync()
+        } finally {
+            await handle.close()
+        }
+    }
+
+    private async writeSnapshot(entries: OutboxEntry[]): Promise<void> {
+        await mkdir(dirname(this.path), { recursive: true })
+        const tmpPath = `${this.path}.${process.pid}.tmp`
+        const handle = await open(tmpPath, 'w')
+        try {
+            const content = entries
+                .map((entry) => JSON.stringify({ op: 'save', entry } satisfies OutboxLogLine))
+                .join('\n')
+            await handle.write(content ? `${content}\n` : '')
+            await handle.sync()
+        } finally {
+            await handle.close()
+        }
+        await rename(tmpPath, this.path)
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Invoice outbox
+ * Durable queue for invoice submission with pluggable storage
+ */
+
+export { InvoiceOutbox } from './outbox'
+export type { InvoiceOutboxOptions } from './outbox'
+export { MemoryOutboxStore } from './memory-store'
+export { FileOutboxStore } from './file-store'
+export type { FileOutboxStoreOptions } from './file-store'
@@ -0,0 +1,21 @@
+import type { OutboxEntry, OutboxStore } from '../types/outbox.types'
+
+/**
+ * In-memory outbox store
+ * Entries are lost when the process exits: use it for tests or short-lived scripts
+ */
+export class MemoryOutboxStore implements OutboxStore {
+    private readonly entries = new Map<string, OutboxEntry>()
+
+    async load(): Promise<OutboxEntry[]> {
+        return Array.from(this.entries.values(), (entry) => structuredClone(entry))
+    }
+
+    async save(entry: OutboxEntry): Promise<void> {
+        this.entries.set(entry.id, structuredClone(entry))
+    }
+
+    async remove(id: string): Promise<void> {
+        this.entries.delete(id)
+    }
+}
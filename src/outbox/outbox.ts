@@ -0,0 +1,388 @@
+import { isTransientError } from '../errors'
+import { computeBackoffDelay, resolveRetryPolicy } from '../retry'
+import { getInvoiceSeries } from '../utils'
+import type { InvoSDK } from '../sdk'
+import type { CreateInvoiceDto } from '../types/api.types'
+import type {
+    OutboxDrainResult,
+    OutboxEntry,
+    OutboxStatus,
+    OutboxStore,
+} from '../types/outbox.types'
+import { MemoryOutboxStore } from './memory-store'
+
+/**
+ * Options for `InvoiceOutbox`
+ */
+export interface InvoiceOutboxOptions {
+    /**
+     * Persistence adapter
+     * @default MemoryOutboxStore
+     */
+    store?: OutboxStore
+
+    /**
+     * Attempts before an entry is moved to the dead-letter list
+     * @default 10
+     */
+    maxAttempts?: number
+
+    /**
+     * Base delay between attempts of the same entry, in milliseconds
+     * @default 5000
+     */
+    baseDelayMs?: number
+
+    /**
+     * Maximum delay between attempts of the same entry, in milliseconds
+     * @default 600000 (10 minutes)
+     */
+    maxDelayMs?: number
+
+    /**
+     * Series of an invoice. Entries of the same series are sent strictly in order:
+     * a failing or dead entry blocks the ones after it
+     * @default invoice number without its trailing digits
+     */
+    seriesOf?: (invoice: CreateInvoiceDto) => string
+
+    /**
+     * Called after each attempt
+     */
+    onAttempt?: (entry: OutboxEntry, error?: unknown) => void
+}
+
+/**
+ * Durable outbox for invoice submission
+ *
+ * Invoices are persisted before any request is made and drained in issue date /
+ * series order, so the VeriFactu chain is never reordered. Transient failures are
+ * retried with backoff; permanent failures (validation, 4xx) and entries exceeding
+ * `maxAttempts` go to the dead-letter list, and block their series until they are
+ * requeued or discarded. Each `store()` call carries the
+ * `externalId` idempotency key, so re-sending after a crash never double-registers.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new InvoiceOutbox(sdk, {
+ *   store: new FileOutboxStore('./data/invo-outbox.jsonl'),
+ * })
+ *
+ * await outbox.enqueue(invoice)
+ * outbox.start({ intervalMs: 30000 })
+ *
+ * console.log(await outbox.status())
+ * ```
+ */
+export class InvoiceOutbox {
+    private readonly sdk: Pick<InvoSDK, 'store'>
+    private readonly store: OutboxStore
+    private readonly maxAttempts: number
+    private readonly seriesOf: (invoice: CreateInvoiceDto) => string
+    private readonly onAttempt?: (entry: OutboxEntry, error?: unknown) => void
+    private readonly backoff: ReturnType<typeof resolveRetryPolicy>
+
+    private entries: Map<string, OutboxEntry> | null = null
+    private loadPromise: Promise<Map<string, OutboxEntry>> | null = null
+    private drainPromise: Promise<OutboxDrainResult> | null = null
+    private timer: ReturnType<typeof setInterval> | null = null
+    private sequence = 0
+
+    constructor(sdk: Pick<InvoSDK, 'store'>, options: InvoiceOutboxOptions = {}) {
+        this.sdk = sdk
+        this.store = options.store ?? new MemoryOutboxStore()
+        this.maxAttempts = options.maxAttempts ?? 10
+        this.seriesOf = options.seriesOf ?? ((invoice) => getInvoiceSeries(invoice.invoiceNumber))
+        this.onAttempt = options.onAttempt
+        this.backoff = resolveRetryPolicy({
+            baseDelayMs: options.baseDelayMs ?? 5000,
+            maxDelayMs: options.maxDelayMs ?? 600000,
+            jitter: 'equal',
+        })
+    }
+
+    /**
+     * Load entries from the store once
+     */
+    private async load(): Promise<Map<string, OutboxEntry>> {
+        if (this.entries) return this.entries
+
+        if (!this.loadPromise) {
+            this.loadPromise = this.store.load().then((entries) => {
+                this.entries = new Map(entries.map((entry) => [entry.id, entry]))
+                this.sequence = entries.reduce((max, entry) => Math.max(max, entry.sequence), 0)
+                return this.entries
+            })
+            this.loadPromise.catch(() => {
+                this.loadPromise = null
+            })
+        }
+
+        return this.loadPromise
+    }
+
+    private async persist(entry: OutboxEntry): Promise<void> {
+        await this.store.save(entry)
+        this.entries?.set(entry.id, entry)
+    }
+
+    /**
+     * Add an invoice to the outbox
+     * The entry is persisted before this resolves. Enqueuing an `externalId`
+     * already in the outbox returns the existing entry
+     */
+    async enqueue(invoice: CreateInvoiceDto, callback?: string): Promise<OutboxEntry> {
+        const entries = await this.load()
+
+        const existing = entries.get(invoice.externalId)
+        if (existing) return { ...existing }
+
+        const entry: OutboxEntry = {
+            id: invoice.externalId,
+            invoice,
+            ...(callback && { callback }),
+            status: 'pending',
+            sequence: ++this.sequence,
+            attempts: 0,
+            enqueuedAt: new Date().toISOString(),
+        }
+
+        await this.persist(entry)
+        return { ...entry }
+    }
+
+    /**
+     * Pending entries in submission order: issue date, then series, then enqueue order
+     */
+    private pendingInOrder(entries: Iterable<OutboxEntry>): OutboxEntry[] {
+        return this.inOrder(entries, ['pending'])
+    }
+
+    /**
+     * Entries with one of the given statuses, in submission order
+     */
+    private inOrder(
+        entries: Iterable<OutboxEntry>,
+        statuses: readonly OutboxEntry['status'][],
+    ): OutboxEntry[] {
+        return Array.from(entries)
+            .filter((entry) => statuses.includes(entry.status))
+            .sort((a, b) => {
+                const byDate =
+                    Date.parse(a.invoice.issueDate) - Date.parse(b.invoice.issueDate) || 0
+                if (byDate !== 0) return byDate
+
+                const bySeries = this.seriesOf(a.invoice).localeCompare(this.seriesOf(b.invoice))
+                return bySeries !== 0 ? bySeries : a.sequence - b.sequence
+            })
+    }
+
+    /**
+     * Send every pending entry that is due
+     * Only one drain runs at a time; concurrent calls share the same run
+     */
+    drain(): Promise<OutboxDrainResult> {
+        if (!this.drainPromise) {
+            this.drainPromise = this.runDrain().finally(() => {
+                this.drainPromise = null
+            })
+        }
+        return this.drainPromise
+    }
+
+    private async runDrain(): Promise<OutboxDrainResult> {
+        const entries = await this.load()
+        const result: OutboxDrainResult = { sent: [], failed: [], dead: [], skipped: [] }
+        const blockedSeries = new Set<string>()
+        const now = Date.now()
+
+        for (const pending of this.inOrder(entries.values(), ['pending', 'dead'])) {
+            const series = this.seriesOf(pending.invoice)
+
+            // A dead entry holds back the rest of its series until it is requeued or discarded
+            if (pending.status === 'dead') {
+                blockedSeries.add(series)
+                continue
+            }
+
+            const notDue = pending.nextAttemptAt && Date.parse(pending.nextAttemptAt) > now
+            if (blockedSeries.has(series) || notDue) {
+                blockedSeries.add(series)
+                result.skipped.push({ ...pending })
+                continue
+            }
+
+            // Record the attempt before sending so a crash mid-request is visible on restart
+            const entry: OutboxEntry = {
+                ...pending,
+                attempts: pending.attempts + 1,
+                lastAttemptAt: new Date().toISOString(),
+            }
+            await this.persist(entry)
+
+            try {
+                const response = await this.sdk.store(entry.invoice, entry.callback)
+
+                const sent: OutboxEntry = {
+                    ...entry,
+                    status: 'sent',
+                    invoiceId: response.invoiceId,
+                    chainIndex: response.chainIndex,
+                    sentAt: new Date().toISOString(),
+                    nextAttemptAt: undefined,
+                    lastError: undefined,
+                }
+                await this.persist(sent)
+                result.sent.push({ ...sent })
+                this.onAttempt?.(sent)
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error)
+                const giveUp = !isTransientError(error) || entry.attempts >= this.maxAttempts
+
+                const failed: OutboxEntry = giveUp
+                    ? { ...entry, status: 'dead', lastError: message, nextAttemptAt: undefined }
+                    : {
+                          ...entry,
+                          lastError: message,
+                          nextAttemptAt: new Date(
+                              Date.now() + computeBackoffDelay(this.backoff, entry.attempts),
+                          ).toISOString(),
+                      }
+                await this.persist(failed)
+                this.onAttempt?.(failed, error)
+
+                // Later invoices of this series must wait for this one
+                blockedSeries.add(series)
+                if (giveUp) {
+                    result.dead.push({ ...failed })
+                } else {
+                    result.failed.push({ ...failed })
+                }
+            }
+        }
+
+        return result
+    }
+
+    /**
+     * Drain the outbox periodically
+     */
+    start(options: { intervalMs?: number } = {}): void {
+        if (this.timer) return
+
+        const run = () => {
+            this.drain().catch(() => {})
+        }
+        this.timer = setInterval(run, options.intervalMs ?? 30000)
+        // Don't keep the process alive only for the outbox
+        this.timer.unref?.()
+        run()
+    }
+
+    /**
+     * Stop periodic draining and wait for the current run to finish
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+        await this.drainPromise?.catch(() => {})
+    }
+
+    /**
+     * Entry counters
+     */
+    async status(): Promise<OutboxStatus> {
+        const entries = Array.from((await this.load()).values())
+        const pending = entries.filter((entry) => entry.status === 'pending')
+
+        return {
+            pending: pending.length,
+            failing: pending.filter((entry) => entry.attempts > 0).length,
+            sent: entries.filter((entry) => entry.status === 'sent').length,
+            dead: entries.filter((entry) => entry.status === 'dead').length,
+        }
+    }
+
+    /**
+     * Get an entry by its ID (`externalId`)
+     */
+    async get(id: string): Promise<OutboxEntry | null> {
+        const entry = (await this.load()).get(id)
+        return entry ? { ...entry } : null
+    }
+
+    /**
+     * Pending entries that failed at least once, in submission order
+     */
+    async failures(): Promise<OutboxEntry[]> {
+        const entries = (await this.load()).values()
+        return this.pendingInOrder(entries)
+            .filter((entry) => entry.attempts > 0)
+            .map((entry) => ({ ...entry }))
+    }
+
+    /**
+     * Entries that were given up on
+     */
+    async deadLetters(): Promise<OutboxEntry[]> {
+        return Array.from((await this.load()).values())
+            .filter((entry) => entry.status === 'dead')
+            .sort((a, b) => a.sequence - b.sequence)
+            .map((entry) => ({ ...entry }))
+    }
+
+    /**
+     * Move a dead entry back to pending, optionally with a corrected invoice
+     */
+    async requeue(id: string, invoice?: CreateInvoiceDto): Promise<OutboxEntry> {
+        const entry = (await this.load()).get(id)
+        if (!entry || entry.status !== 'dead') {
+            throw new Error(`Outbox entry "${id}" is not in the dead-letter list`)
+        }
+
+        const requeued: OutboxEntry = {
+            ...entry,
+            invoice: invoice ?? entry.invoice,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: undefined,
+            lastError: undefined,
+        }
+        await this.persist(requeued)
+        return { ...requeued }
+    }
+
+    /**
+     * Drop a dead entry for good, unblocking the rest of its series
+     * Only do this when the invoice will not be registered at all
+     */
+    async discard(id: string): Promise<void> {
+        const entries = await this.load()
+        const entry = entries.get(id)
+        if (!entry || entry.status !== 'dead') {
+            throw new Error(`Outbox entry "${id}" is not in the dead-letter list`)
+        }
+
+        await this.store.remove(id)
+        entries.delete(id)
+    }
+
+    /**
+     * Remove sent entries from the store
+     *
+     * @returns Number of removed entries
+     */
+    async purgeSent(): Promise<number> {
+        const entries = await this.load()
+        const sent = Array.from(entries.values()).filter((entry) => entry.status === 'sent')
+
+        for (const entry of sent) {
+            await this.store.remove(entry.id)
+            entries.delete(entry.id)
+        }
+
+        return sent.length
+    }
+}
@@ -0,0 +1,112 @@
+import type { PaginatedResponse, PaginationQuery } from './types/common.types'
+
+/**
+ * Maximum page size accepted by the API list endpoints
+ */
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Function that fetches a single page of a list endpoint
+ */
+export type PageFetcher<T, Q extends PaginationQuery> = (query: Q) => Promise<PaginatedResponse<T>>
+
+/**
+ * Options for `Paginator.toArray`
+ */
+export interface ToArrayOptions {
+    /**
+     * Maximum number of items to collect
+     */
+    max?: number
+}
+
+/**
+ * Async iterator over a paginated list endpoint
+ * Fetches pages lazily and yields items across pages
+ *
+ * @example
+ * ```typescript
+ * for await (const invoice of sdk.invoices.paginate({ status: 'REJECTED' })) {
+ *   console.log(invoice.invoiceNumber)
+ * }
+ *
+ * // Page-level iteration
+ * for await (const page of sdk.invoices.paginate().pages()) {
+ *   console.log(`Page ${page.page}/${page.totalPages}`)
+ * }
+ *
+ * // Collect up to 500 items
+ * const invoices = await sdk.invoices.paginate().toArray({ max: 500 })
+ * ```
+ */
+export class Paginator<T, Q extends PaginationQuery = PaginationQuery> implements AsyncIterable<T> {
+    private readonly fetchPage: PageFetcher<T, Q>
+    private readonly query: Q
+
+    constructor(fetchPage: PageFetcher<T, Q>, query: Q = {} as Q) {
+        this.fetchPage = fetchPage
+        this.query = query
+    }
+
+    /**
+     * Iterate page by page, starting at `query.page` (default 1)
+     */
+    async *pages(): AsyncGenerator<PaginatedResponse<T>, void, undefined> {
+        const limit = Math.min(this.query.limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE)
+        let page = this.query.page ?? 1
+
+        while (true) {
+            const response = await this.fetchPage({ ...this.query, page, limit })
+            yield response
+
+            const isLastPage =
+                response.data.length === 0 ||
+                response.data.length < limit ||
+                (response.totalPages !== undefined && page >= response.totalPages)
+
+            if (isLastPage) return
+            page++
+        }
+    }
+
+    /**
+     * Iterate item by item across all pages
+     */
+    async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        for await (const page of this.pages()) {
+            for (const item of page.data) {
+                yield item
+            }
+        }
+    }
+
+    /**
+     * Collect all items (or up to `max`) into an array
+     */
+    async toArray(options: ToArrayOptions = {}): Promise<T[]> {
+        const items: T[] = []
+        if (options.max !== undefined && options.max <= 0) return items
+
+        for await (const item of this) {
+            items.push(item)
+            if (options.max !== undefined && items.length >= options.max) break
+        }
+
+        return items
+    }
+}
+
+/**
+ * Create a paginator for any list endpoint
+ *
+ * @example
+ * ```typescript
+ * const paginator = paginate((query) => sdk.invoices.list(query), { status: 'ACCEPTED' })
+ * ```
+ */
+export function paginate<T, Q extends PaginationQuery>(
+    fetchPage: PageFetcher<T, Q>,
+    query?: Q,
+): Paginator<T, Q> {
+    return new Paginator(fetchPage, query)
+}
@@ -0,0 +1,104 @@
+import { createRequestSignal } from './abort'
+import { AbortError, WaitTimeoutError } from './errors'
+import { sleep } from './retry'
+
+/**
+ * Options for polling helpers
+ */
+export interface PollOptions {
+    /**
+     * Delay before the second poll, in milliseconds
+     * @default 2000
+     */
+    intervalMs?: number
+
+    /**
+     * Maximum delay between polls, in milliseconds
+     * @default 30000
+     */
+    maxIntervalMs?: number
+
+    /**
+     * Factor applied to the delay after each poll (1 keeps it constant)
+     * @default 1.5
+     */
+    backoffFactor?: number
+
+    /**
+     * Give up after this many milliseconds and reject with `WaitTimeoutError`
+     * A request still in flight at the deadline is aborted
+     * @default 300000 (5 minutes)
+     */
+    timeoutMs?: number
+
+    /**
+     * Signal to stop polling
+     * An aborted wait rejects with `AbortError`
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * Poll `fetch` until `isDone` returns true
+ * The delay grows by `backoffFactor` after each poll, up to `maxIntervalMs`
+ *
+ * @param fetch - Fetch the current value; receives the signal to pass down to requests,
+ * which also aborts when `timeoutMs` elapses
+ * @param isDone - Whether the value is final
+ * @param description - Used in the timeout error message
+ */
+export async function pollUntil<T>(
+    fetch: (signal?: AbortSignal) => Promise<T>,
+    isDone: (value: T) => boolean,
+    options: PollOptions = {},
+    description = 'resource',
+): Promise<T> {
+    const {
+        intervalMs = 2000,
+        maxIntervalMs = 30000,
+        backoffFactor = 1.5,
+        timeoutMs = 300000,
+        signal,
+    } = options
+
+    // Aborts at the deadline too, so a hung request cannot outlive `timeoutMs`
+    const requestSignal = createRequestSignal(timeoutMs, signal)
+    const deadline = Date.now() + timeoutMs
+    let delay = intervalMs
+    let lastValue: T | undefined
+
+    const timeoutError = () =>
+        new WaitTimeoutError(
+            `Timed out after ${timeoutMs}ms waiting for ${description}`,
+            timeoutMs,
+            lastValue,
+        )
+
+    try {
+        while (true) {
+            if (signal?.aborted) throw new AbortError()
+            if (requestSignal.timedOut()) throw timeoutError()
+
+            lastValue = await fetch(requestSignal.signal)
+            if (isDone(lastValue)) return lastValue
+
+            const remaining = deadline - Date.now()
+            if (remaining <= 0) break
+
+            await sleep(Math.min(delay, remaining), requestSignal.signal)
+            delay = Math.min(delay * backoffFactor, maxIntervalMs)
+        }
+    } catch (error) {
+        if (signal?.aborted && !(error instanceof AbortError)) {
+            throw new AbortError()
+        }
+        if (requestSignal.timedOut() && !signal?.aborted) {
+            throw timeoutError()
+        }
+        throw error
+    } finally {
+        requestSignal.cleanup()
+    }
+
+    throw timeoutError()
+}
@@ -0,0 +1,123 @@
+import { ApiTokenRotationError } from '../errors'
+import type { ApiTokenListItem, ApiTokenResponse, CreateApiTokenDto } from '../types/index'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+
+/**
+ * Lifetime of an API token in whole days, or null if it never expires
+ */
+export function getApiTokenLifetimeDays(
+    token: Pick<ApiTokenListItem, 'created_at' | 'expires_at'>,
+): number | null {
+    if (!token.expires_at) return null
+
+    const ms = Date.parse(token.expires_at) - Date.parse(token.created_at)
+    if (Number.isNaN(ms)) return null
+
+    return Math.max(1, Math.round(ms / (24 * 60 * 60 * 1000)))
+}
+
+/**
+ * API tokens resource
+ * Typed access to the `/api-token` endpoints
+ */
+export class ApiTokensResource {
+    constructor(private readonly request: ApiRequester) {}
+
+    /**
+     * List the API tokens of the workspace
+     * The token value itself is never returned, only its prefix
+     */
+    async list(options?: RequestOptions): Promise<ApiTokenListItem[]> {
+        return this.request<ApiTokenListItem[]>('/api-token', 'GET', undefined, options)
+    }
+
+    /**
+     * Create an API token
+     * The returned `token` is only shown once: store it securely
+     *
+     * @example
+     * ```typescript
+     * const { token } = await sdk.apiTokens.create({
+     *   name: 'Partner ABC',
+     *   expires_in: 365,
+     *   scopes: ['invoices:create', 'invoices:read'],
+     * })
+     * ```
+     */
+    async create(data: CreateApiTokenDto, options?: RequestOptions): Promise<ApiTokenResponse> {
+        return this.request<ApiTokenResponse>('/api-token', 'POST', data, options)
+    }
+
+    /**
+     * Get a single API token by its ID
+     */
+    async get(id: string, options?: RequestOptions): Promise<ApiTokenListItem> {
+        return this.request<ApiTokenListItem>(
+            `/api-token/${encodeURIComponent(id)}`,
+            'GET',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Revoke an API token
+     * The token stops working but stays listed as inactive
+     */
+    async revoke(id: string, options?: RequestOptions): Promise<void> {
+        await this.request<void>(`/api-token/${encodeURIComponent(id)}`, 'PUT', undefined, options)
+    }
+
+    /**
+     * Delete an API token
+     */
+    async delete(id: string, options?: RequestOptions): Promise<void> {
+        await this.request<void>(
+            `/api-token/${encodeURIComponent(id)}`,
+            'DELETE',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Replace an API token: create a new one with the same name and scopes,
+     * then revoke the old one
+     *
+     * @param expiresIn - Days until the new token expires. Defaults to the lifetime of the
+     *   current token (`expires_at` - `created_at`); pass `null` for a token that never expires
+     * @throws ApiTokenRotationError if the old token could not be revoked;
+     *   the new token is available on the error so it is not lost
+     *
+     * @example
+     * ```typescript
+     * const { token } = await sdk.apiTokens.rotate(tokenId)
+     * await secrets.put('PARTNER_ABC_INVO_TOKEN', token)
+     * ```
+     */
+    async rotate(
+        id: string,
+        expiresIn?: number | null,
+        options?: RequestOptions,
+    ): Promise<ApiTokenResponse> {
+        const current = await this.get(id, options)
+        const lifetimeDays = expiresIn === undefined ? getApiTokenLifetimeDays(current) : expiresIn
+
+        const replacement = await this.create(
+            {
+                name: current.name,
+                ...(current.scopes && { scopes: current.scopes }),
+                ...(lifetimeDays !== null && { expires_in: lifetimeDays }),
+            },
+            options,
+        )
+
+        try {
+            await this.revoke(id, options)
+        } catch (error) {
+            throw new ApiTokenRotationError(id, replacement, error)
+        }
+
+        return replacement
+    }
+}
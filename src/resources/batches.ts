@@ -0,0 +1,162 @@
+import { BatchTransitionError, NotFoundError } from '../errors'
+import { Paginator } from '../pagination'
+import { pollUntil, type PollOptions } from '../polling'
+import { buildQueryString } from '../utils'
+import type { UpdateBatchStatusDto } from '../types/api.types'
+import type { Batch, BatchListQuery, BatchStatus } from '../types/batch.types'
+import type { PaginatedResponse } from '../types/common.types'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+
+/**
+ * Allowed batch status transitions
+ * CLOSED is final; SENT can only be closed
+ */
+export const BATCH_STATUS_TRANSITIONS: Readonly<Record<BatchStatus, readonly BatchStatus[]>> = {
+    OPEN: ['READY', 'CLOSED'],
+    READY: ['OPEN', 'PROCESSING', 'CLOSED'],
+    PROCESSING: ['READY', 'SENT'],
+    SENT: ['CLOSED'],
+    CLOSED: [],
+}
+
+/**
+ * Whether a batch can move from one status to another
+ */
+export function canTransitionBatch(from: BatchStatus, to: BatchStatus): boolean {
+    return BATCH_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Options for `BatchesResource.setStatus`
+ */
+export interface SetBatchStatusOptions extends RequestOptions {
+    /**
+     * Skip the client-side transition check
+     * @default false
+     */
+    force?: boolean
+}
+
+/**
+ * Options for `BatchesResource.waitFor`
+ */
+export interface WaitForBatchOptions extends PollOptions {
+    /**
+     * Statuses to wait for
+     * @default ['SENT', 'CLOSED']
+     */
+    until?: BatchStatus | BatchStatus[]
+}
+
+/**
+ * Batches resource
+ * Typed access to the `/invoice/batches` endpoints
+ */
+export class BatchesResource {
+    constructor(private readonly request: ApiRequester) {}
+
+    /**
+     * List submission batches with optional filters and pagination
+     *
+     * @example
+     * ```typescript
+     * const { data } = await sdk.batches.list({ status: 'OPEN' })
+     * ```
+     */
+    async list(
+        query: BatchListQuery = {},
+        options?: RequestOptions,
+    ): Promise<PaginatedResponse<Batch>> {
+        return this.request<PaginatedResponse<Batch>>(
+            `/invoice/batches${buildQueryString(query)}`,
+            'GET',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Iterate over all batches matching the filters, across pages
+     */
+    paginate(
+        query: BatchListQuery = {},
+        options?: RequestOptions,
+    ): Paginator<Batch, BatchListQuery> {
+        return new Paginator((pageQuery) => this.list(pageQuery, options), query)
+    }
+
+    /**
+     * Get a single batch by its ID
+     * The API has no single-batch endpoint, so this scans the batch list
+     *
+     * @throws NotFoundError if no batch has this ID
+     */
+    async get(id: string, options?: RequestOptions): Promise<Batch> {
+        for await (const batch of this.paginate({}, options)) {
+            if (batch.id === id) {
+                return batch
+            }
+        }
+        throw new NotFoundError(`Batch "${id}" not found`, {
+            endpoint: '/invoice/batches',
+            method: 'GET',
+        })
+    }
+
+    /**
+     * Change the status of a batch
+     * The transition is checked against the current status first
+     *
+     * @throws BatchTransitionError if the transition is not allowed
+     *
+     * @example
+     * ```typescript
+     * await sdk.batches.setStatus(batchId, 'READY')
+     * ```
+     */
+    async setStatus(
+        id: string,
+        status: BatchStatus,
+        options: SetBatchStatusOptions = {},
+    ): Promise<Batch> {
+        const { force, ...requestOptions } = options
+
+        if (!force) {
+            const current = await this.get(id, requestOptions)
+            if (!canTransitionBatch(current.status, status)) {
+                throw new BatchTransitionError(current.status, status)
+            }
+        }
+
+        const body: UpdateBatchStatusDto = { status }
+        return this.request<Batch>(
+            `/invoice/batches/${encodeURIComponent(id)}/status`,
+            'PATCH',
+            body,
+            requestOptions,
+        )
+    }
+
+    /**
+     * Poll a batch until it reaches one of the given statuses
+     *
+     * @throws WaitTimeoutError if the batch does not get there within `timeoutMs`
+     *
+     * @example
+     * ```typescript
+     * const batch = await sdk.batches.waitFor(batchId, { timeoutMs: 10 * 60 * 1000 })
+     * console.log(batch.status) // 'SENT' or 'CLOSED'
+     * ```
+     */
+    async waitFor(id: string, options: WaitForBatchOptions = {}): Promise<Batch> {
+        const { until = ['SENT', 'CLOSED'], ...pollOptions } = options
+        const statuses = Array.isArray(until) ? until : [until]
+
+        return pollUntil(
+            (signal) => this.get(id, { signal }),
+            (batch) => statuses.includes(batch.status),
+            pollOptions,
+            `batch "${id}" to reach ${statuses.join(' or ')}`,
+        )
+    }
+}
@@ -0,0 +1,92 @@
+import type { UploadCertificateDto } from '../types/api.types'
+import type { CertificateFile, CertificateInfo } from '../types/certificate.types'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whole days left before a certificate expires (negative once expired)
+ *
+ * @example
+ * ```typescript
+ * if (getCertificateDaysUntilExpiry(info) < 30) {
+ *   alertOps('Renew the VeriFactu certificate')
+ * }
+ * ```
+ */
+export function getCertificateDaysUntilExpiry(
+    info: Pick<CertificateInfo, 'validTo'>,
+    now: Date = new Date(),
+): number {
+    const validTo = Date.parse(info.validTo)
+    if (Number.isNaN(validTo)) {
+        throw new Error(`Invalid certificate expiry date: ${info.validTo}`)
+    }
+    return Math.floor((validTo - now.getTime()) / DAY_MS)
+}
+
+/**
+ * Certificates resource
+ * Typed access to the `/certificate` endpoints
+ */
+export class CertificatesResource {
+    constructor(private readonly request: ApiRequester) {}
+
+    /**
+     * Upload the digital certificate of the workspace
+     * Replaces the current one
+     *
+     * @param file - PKCS#12 certificate (.p12 / .pfx)
+     * @param password - Certificate password
+     *
+     * @example
+     * ```typescript
+     * const info = await sdk.certificates.upload(fs.readFileSync('cert.p12'), 'password')
+     * console.log(info.nif, info.validTo)
+     * ```
+     */
+    async upload(
+        file: CertificateFile,
+        password: string,
+        options?: RequestOptions,
+    ): Promise<CertificateInfo> {
+        const fields: UploadCertificateDto = { password }
+
+        // Copy Uint8Arrays (e.g. Buffers) so the Blob never wraps a SharedArrayBuffer
+        const blob =
+            file instanceof Blob
+                ? file
+                : new Blob([file instanceof Uint8Array ? new Uint8Array(file) : file])
+
+        const formData = new FormData()
+        formData.append(
+            'file',
+            blob,
+            typeof File !== 'undefined' && file instanceof File ? file.name : 'certificate.p12',
+        )
+        formData.append('password', fields.password)
+
+        return this.request<CertificateInfo>('/certificate/upload', 'POST', formData, options)
+    }
+
+    /**
+     * Get the current certificate (subject, issuer, NIF, validity)
+     */
+    async info(options?: RequestOptions): Promise<CertificateInfo> {
+        return this.request<CertificateInfo>('/certificate/info', 'GET', undefined, options)
+    }
+
+    /**
+     * Delete the current certificate
+     */
+    async remove(options?: RequestOptions): Promise<void> {
+        await this.request<void>('/certificate', 'DELETE', undefined, options)
+    }
+
+    /**
+     * Whole days left before the current certificate expires (negative once expired)
+     */
+    async daysUntilExpiry(options?: RequestOptions): Promise<number> {
+        return getCertificateDaysUntilExpiry(await this.info(options))
+    }
+}
@@ -0,0 +1,97 @@
+import { Paginator } from '../pagination'
+import { buildQueryString } from '../utils'
+import type { PaginatedResponse } from '../types/common.types'
+import type {
+    ProcessingError,
+    ProcessingErrorGroup,
+    ProcessingErrorListQuery,
+} from '../types/processing-error.types'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+
+/**
+ * Processing errors resource
+ * Typed access to the `/invoice/errors` endpoints
+ */
+export class ProcessingErrorsResource {
+    constructor(private readonly request: ApiRequester) {}
+
+    /**
+     * List processing errors with optional filters and pagination
+     *
+     * @example
+     * ```typescript
+     * const { data } = await sdk.errors.list({ resolved: false })
+     * ```
+     */
+    async list(
+        query: ProcessingErrorListQuery = {},
+        options?: RequestOptions,
+    ): Promise<PaginatedResponse<ProcessingError>> {
+        return this.request<PaginatedResponse<ProcessingError>>(
+            `/invoice/errors${buildQueryString(query)}`,
+            'GET',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Iterate over all processing errors matching the filters, across pages
+     */
+    paginate(
+        query: ProcessingErrorListQuery = {},
+        options?: RequestOptions,
+    ): Paginator<ProcessingError, ProcessingErrorListQuery> {
+        return new Paginator((pageQuery) => this.list(pageQuery, options), query)
+    }
+
+    /**
+     * Mark an error as resolved once the corrective action has been applied
+     */
+    async resolve(id: string, options?: RequestOptions): Promise<ProcessingError> {
+        return this.request<ProcessingError>(
+            `/invoice/errors/${encodeURIComponent(id)}/resolve`,
+            'PATCH',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * All unresolved errors grouped by invoice
+     * Groups are sorted by their most recent error, newest first
+     *
+     * @example
+     * ```typescript
+     * for (const { invoice, errors } of await sdk.errors.unresolvedByInvoice()) {
+     *   console.log(invoice?.invoiceNumber, errors.map((error) => error.message))
+     * }
+     * ```
+     */
+    async unresolvedByInvoice(options?: RequestOptions): Promise<ProcessingErrorGroup[]> {
+        const groups = new Map<string | null, ProcessingErrorGroup>()
+
+        for await (const error of this.paginate({ resolved: false }, options)) {
+            const invoiceId = error.invoiceId ?? null
+            let group = groups.get(invoiceId)
+            if (!group) {
+                group = { invoiceId, invoice: null, errors: [] }
+                groups.set(invoiceId, group)
+            }
+            group.invoice ??= error.invoice ?? null
+            group.errors.push(error)
+        }
+
+        const latest = (group: ProcessingErrorGroup) =>
+            Math.max(...group.errors.map((error) => Date.parse(error.createdAt) || 0))
+
+        return Array.from(groups.values())
+            .map((group) => ({
+                ...group,
+                errors: group.errors.sort(
+                    (a, b) => (Date.parse(a.createdAt) || 0) - (Date.parse(b.createdAt) || 0),
+                ),
+            }))
+            .sort((a, b) => latest(b) - latest(a))
+    }
+}
@@ -0,0 +1,162 @@
+import { Paginator } from '../pagination'
+import { pollUntil, type PollOptions } from '../polling'
+import { buildQueryString } from '../utils'
+import type { UpdateInvoiceDto } from '../types/api.types'
+import type { PaginatedResponse } from '../types/common.types'
+import type {
+    Invoice,
+    InvoiceListQuery,
+    InvoiceStatus,
+    SubmitInvoiceResult,
+} from '../types/invoice.types'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+
+/**
+ * Statuses after which AEAT will not change an invoice anymore
+ */
+export const FINAL_INVOICE_STATUSES: readonly InvoiceStatus[] = [
+    'ACCEPTED',
+    'ACCEPTED_WITH_WARNINGS',
+    'REJECTED',
+    'FAILED',
+]
+
+/**
+ * Options for `InvoicesResource.waitForStatus`
+ */
+export interface WaitForStatusOptions extends PollOptions {
+    /**
+     * Statuses to wait for
+     * @default FINAL_INVOICE_STATUSES
+     */
+    until?: InvoiceStatus | readonly InvoiceStatus[]
+}
+
+/**
+ * Invoices resource
+ * Typed access to the `/invoice` endpoints
+ */
+export class InvoicesResource {
+    constructor(private readonly request: ApiRequester) {}
+
+    /**
+     * List invoices with optional filters and pagination
+     *
+     * @example
+     * ```typescript
+     * const { data, total } = await sdk.invoices.list({ status: 'REJECTED', limit: 100 })
+     * ```
+     */
+    async list(
+        query: InvoiceListQuery = {},
+        options?: RequestOptions,
+    ): Promise<PaginatedResponse<Invoice>> {
+        return this.request<PaginatedResponse<Invoice>>(
+            `/invoice${buildQueryString(query)}`,
+            'GET',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Iterate over all invoices matching the filters, across pages
+     *
+     * @example
+     * ```typescript
+     * for await (const invoice of sdk.invoices.paginate({ from: '2024-01-01' })) {
+     *   await reconcile(invoice)
+     * }
+     * ```
+     */
+    paginate(
+        query: InvoiceListQuery = {},
+        options?: RequestOptions,
+    ): Paginator<Invoice, InvoiceListQuery> {
+        return new Paginator((pageQuery) => this.list(pageQuery, options), query)
+    }
+
+    /**
+     * Find an invoice by its `externalId`
+     * The API cannot filter by `externalId`, so pass a `search` term (e.g. the invoice number)
+     * to narrow the scan down
+     *
+     * @returns The invoice, or null if none matches
+     */
+    async findByExternalId(
+        externalId: string,
+        query: Pick<InvoiceListQuery, 'search' | 'from' | 'to' | 'customerTaxId'> = {},
+        options?: RequestOptions,
+    ): Promise<Invoice | null> {
+        for await (const invoice of this.paginate(query, options)) {
+            if (invoice.externalId === externalId) {
+                return invoice
+            }
+        }
+        return null
+    }
+
+    /**
+     * Get a single invoice by its ID
+     */
+    async get(id: string, options?: RequestOptions): Promise<Invoice> {
+        return this.request<Invoice>(
+            `/invoice/${encodeURIComponent(id)}`,
+            'GET',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Edit an existing invoice
+     */
+    async update(id: string, data: UpdateInvoiceDto, options?: RequestOptions): Promise<Invoice> {
+        return this.request<Invoice>(`/invoice/${encodeURIComponent(id)}`, 'PATCH', data, options)
+    }
+
+    /**
+     * Delete an invoice
+     */
+    async delete(id: string, options?: RequestOptions): Promise<void> {
+        await this.request<void>(`/invoice/${encodeURIComponent(id)}`, 'DELETE', undefined, options)
+    }
+
+    /**
+     * Force the immediate submission of an invoice to AEAT
+     */
+    async submit(id: string, options?: RequestOptions): Promise<SubmitInvoiceResult> {
+        return this.request<SubmitInvoiceResult>(
+            `/invoice/${encodeURIComponent(id)}/submit`,
+            'POST',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Poll an invoice until AEAT responds
+     * Useful when no public webhook URL can be passed to `store()`
+     *
+     * @throws WaitTimeoutError if the invoice does not reach a final status within `timeoutMs`
+     *
+     * @example
+     * ```typescript
+     * const invoice = await sdk.invoices.waitForStatus(invoiceId, { timeoutMs: 120000 })
+     * if (invoice.status === 'REJECTED') {
+     *   console.error('Rejected by AEAT')
+     * }
+     * ```
+     */
+    async waitForStatus(id: string, options: WaitForStatusOptions = {}): Promise<Invoice> {
+        const { until = FINAL_INVOICE_STATUSES, ...pollOptions } = options
+        const statuses: readonly InvoiceStatus[] = typeof until === 'string' ? [until] : until
+
+        return pollUntil(
+            (signal) => this.get(id, { signal }),
+            (invoice) => statuses.includes(invoice.status),
+            pollOptions,
+            `invoice "${id}" to reach ${statuses.join(' or ')}`,
+        )
+    }
+}
@@ -0,0 +1,166 @@
+import { LastOwnerError } from '../errors'
+import type { AddMemberDto, UpdateMemberRoleDto, WorkspaceDto } from '../types/api.types'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+import type { WorkspaceMember, WorkspaceRole } from '../types/workspace.types'
+
+/**
+ * Options for member changes
+ */
+export interface WorkspaceMemberOptions extends RequestOptions {
+    /**
+     * Skip the client-side last owner check
+     * @default false
+     */
+    force?: boolean
+}
+
+/**
+ * Why the caller's role cannot make a member change, or null if it can
+ * Owners can do anything; admins can manage everyone but owners
+ */
+export function getMemberPermissionIssue(
+    callerRole: WorkspaceRole,
+    targetRole?: WorkspaceRole,
+    newRole?: WorkspaceRole,
+): string | null {
+    if (callerRole === 'owner') return null
+    if (callerRole !== 'admin') return `role "${callerRole}" cannot manage members`
+    if (targetRole === 'owner' || newRole === 'owner') return 'only owners can manage owners'
+    return null
+}
+
+/**
+ * Find a member by member ID or user ID
+ */
+function findMember(members: WorkspaceMember[], memberId: string): WorkspaceMember | undefined {
+    return members.find((member) => member.id === memberId || member.user_id === memberId)
+}
+
+/**
+ * Members of a single workspace
+ * Typed access to the `/workspace/{id}/members` endpoints
+ */
+export class WorkspaceMembersResource {
+    private callerRole: Promise<WorkspaceRole | null> | null = null
+
+    constructor(
+        private readonly request: ApiRequester,
+        public readonly workspaceId: string,
+        private readonly onWarning: (message: string) => void = (message) =>
+            console.warn(`INVO SDK: ${message}`),
+    ) {}
+
+    private get path(): string {
+        return `/workspace/${encodeURIComponent(this.workspaceId)}/members`
+    }
+
+    /**
+     * List the members of the workspace
+     */
+    async list(options?: RequestOptions): Promise<WorkspaceMember[]> {
+        return this.request<WorkspaceMember[]>(this.path, 'GET', undefined, options)
+    }
+
+    /**
+     * Add a user to the workspace
+     *
+     * @example
+     * ```typescript
+     * await sdk.workspaces.members(workspaceId).add({ user_id: userId, role: 'viewer' })
+     * ```
+     */
+    async add(data: AddMemberDto, options?: RequestOptions): Promise<WorkspaceMember> {
+        await this.warnIfNotAllowed(undefined, data.role, options)
+        return this.request<WorkspaceMember>(this.path, 'POST', data, options)
+    }
+
+    /**
+     * Change the role of a member
+     *
+     * @throws LastOwnerError when demoting the only owner
+     */
+    async updateRole(
+        memberId: string,
+        role: WorkspaceRole,
+        options: WorkspaceMemberOptions = {},
+    ): Promise<WorkspaceMember> {
+        const { force, ...requestOptions } = options
+
+        const members = await this.list(requestOptions)
+        const member = findMember(members, memberId)
+        if (!force && role !== 'owner' && member?.role === 'owner') {
+            this.assertNotLastOwner(members)
+        }
+        await this.warnIfNotAllowed(member?.role, role, requestOptions)
+
+        const body: UpdateMemberRoleDto = { role }
+        return this.request<WorkspaceMember>(
+            `${this.path}/${encodeURIComponent(memberId)}`,
+            'PUT',
+            body,
+            requestOptions,
+        )
+    }
+
+    /**
+     * Remove a member from the workspace
+     *
+     * @throws LastOwnerError when removing the only owner
+     */
+    async remove(memberId: string, options: WorkspaceMemberOptions = {}): Promise<void> {
+        const { force, ...requestOptions } = options
+
+        const members = await this.list(requestOptions)
+        const member = findMember(members, memberId)
+        if (!force && member?.role === 'owner') {
+            this.assertNotLastOwner(members)
+        }
+        await this.warnIfNotAllowed(member?.role, undefined, requestOptions)
+
+        await this.request<void>(
+            `${this.path}/${encodeURIComponent(memberId)}`,
+            'DELETE',
+            undefined,
+            requestOptions,
+        )
+    }
+
+    private assertNotLastOwner(members: WorkspaceMember[]): void {
+        const owners = members.filter((member) => member.role === 'owner')
+        if (owners.length <= 1) {
+            throw new LastOwnerError(this.workspaceId)
+        }
+    }
+
+    /**
+     * Warn when the caller's own role lacks permission for the change
+     * The API has the final say, so the request is still sent
+     */
+    private async warnIfNotAllowed(
+        targetRole?: WorkspaceRole,
+        newRole?: WorkspaceRole,
+        options?: RequestOptions,
+    ): Promise<void> {
+        if (!this.callerRole) {
+            this.callerRole = this.request<WorkspaceDto[]>('/workspace', 'GET', undefined, options)
+                .then(
+                    (workspaces) =>
+                        workspaces.find((workspace) => workspace.workspace_id === this.workspaceId)
+                            ?.role ?? null,
+                )
+                .catch(() => {
+                    // Look the role up again on the next change
+                    this.callerRole = null
+                    return null
+                })
+        }
+
+        const callerRole = await this.callerRole
+        if (!callerRole) return
+
+        const issue = getMemberPermissionIssue(callerRole, targetRole, newRole)
+        if (issue) {
+            this.onWarning(`workspace ${this.workspaceId}: ${issue}`)
+        }
+    }
+}
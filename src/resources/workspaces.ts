@@ -0,0 +1,98 @@
+import type { CreateWorkspaceDto, UpdateWorkspaceDto, WorkspaceDto } from '../types/api.types'
+import type { ApiRequester, RequestOptions } from '../types/sdk.types'
+import type { Workspace } from '../types/workspace.types'
+import { WorkspaceMembersResource } from './workspace-members'
+
+/**
+ * Workspaces resource
+ * Typed access to the `/workspace` endpoints
+ */
+export class WorkspacesResource {
+    constructor(
+        private readonly request: ApiRequester,
+        private readonly onWarning?: (message: string) => void,
+    ) {}
+
+    /**
+     * Create a workspace
+     *
+     * @example
+     * ```typescript
+     * const workspace = await sdk.workspaces.create({
+     *   name: 'Cliente SL',
+     *   tax_id: 'B12345674',
+     * })
+     * ```
+     */
+    async create(data: CreateWorkspaceDto, options?: RequestOptions): Promise<Workspace> {
+        return this.request<Workspace>('/workspace', 'POST', data, options)
+    }
+
+    /**
+     * List the workspaces of the authenticated user, with their role in each one
+     */
+    async list(options?: RequestOptions): Promise<WorkspaceDto[]> {
+        return this.request<WorkspaceDto[]>('/workspace', 'GET', undefined, options)
+    }
+
+    /**
+     * Get the workspace of the token in use, with the user's role in it
+     *
+     * @example
+     * ```typescript
+     * const { workspace_id, name, role } = await sdk.workspaces.current()
+     * ```
+     */
+    async current(options?: RequestOptions): Promise<WorkspaceDto> {
+        return this.request<WorkspaceDto>('/workspace/current', 'GET', undefined, options)
+    }
+
+    /**
+     * Get a single workspace by its ID
+     */
+    async get(id: string, options?: RequestOptions): Promise<Workspace> {
+        return this.request<Workspace>(
+            `/workspace/${encodeURIComponent(id)}`,
+            'GET',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Update a workspace
+     */
+    async update(
+        id: string,
+        data: UpdateWorkspaceDto,
+        options?: RequestOptions,
+    ): Promise<Workspace> {
+        return this.request<Workspace>(`/workspace/${encodeURIComponent(id)}`, 'PUT', data, options)
+    }
+
+    /**
+     * Delete a workspace
+     */
+    async delete(id: string, options?: RequestOptions): Promise<void> {
+        await this.request<void>(
+            `/workspace/${encodeURIComponent(id)}`,
+            'DELETE',
+            undefined,
+            options,
+        )
+    }
+
+    /**
+     * Members of a workspace (list, add, updateRole, remove)
+     *
+     * @example
+     * ```typescript
+     * const members = sdk.workspaces.members(workspaceId)
+     * await members.add({ user_id: accountantId, role: 'member' })
+     * await members.updateRole(accountantId, 'viewer')
+     * ```
+     */
+    members(id: string): WorkspaceMembersResource {
+        return new WorkspaceMembersResource(this.request, id, this.onWarning)
+    }
+}
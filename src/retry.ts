@@ -0,0 +1,118 @@
+import type { HttpMethod, RetryConfig } from './types/sdk.types'
+
+/**
+ * Fully resolved retry policy
+ */
+export type RetryPolicy = Required<RetryConfig>
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 30000,
+    jitter: 'full',
+    retryOnStatus: [429, 502, 503, 504],
+    retryOnMethods: ['GET', 'PUT', 'DELETE'],
+    retryOnNetworkError: true,
+}
+
+/**
+ * Resolve the retry policy from the SDK configuration
+ * `false` disables retries (a single attempt)
+ */
+export function resolveRetryPolicy(config?: RetryConfig | false): RetryPolicy {
+    if (config === false) {
+        return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+    }
+
+    // Keys set to undefined keep their default
+    const defined = Object.fromEntries(
+        Object.entries(config ?? {}).filter(([, value]) => value !== undefined),
+    ) as RetryConfig
+
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        ...defined,
+        maxAttempts: Math.max(
+            1,
+            Math.floor(config?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+        ),
+    }
+}
+
+/**
+ * Check whether a request can be retried under the given policy
+ * Non-idempotent methods are only retried when an idempotency key is sent
+ */
+export function isRetryableMethod(
+    policy: RetryPolicy,
+    method: HttpMethod,
+    idempotencyKey?: string,
+): boolean {
+    return policy.retryOnMethods.includes(method) || Boolean(idempotencyKey)
+}
+
+/**
+ * Compute the delay before the next attempt using exponential backoff and jitter
+ *
+ * @param policy - Retry policy
+ * @param attempt - Attempt that just failed (1-based)
+ */
+export function computeBackoffDelay(policy: RetryPolicy, attempt: number): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+
+    switch (policy.jitter) {
+        case 'full':
+            return Math.floor(Math.random() * exponential)
+        case 'equal':
+            return Math.floor(exponential / 2 + Math.random() * (exponential / 2))
+        default:
+            return exponential
+    }
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or HTTP date) into milliseconds
+ * Returns null when the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null
+
+    const seconds = Number(header)
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000)
+    }
+
+    const date = Date.parse(header)
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now())
+    }
+
+    return null
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * Rejects early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason)
+            return
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal?.reason)
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
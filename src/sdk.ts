@@ -1,8 +1,62 @@
-import { AuthError, InvalidCredentialsError, NetworkError, TokenExpiredError } from './errors'
-import { isTokenExpired } from './utils'
-import type { LoginResponseDto, UserDto, CreateInvoiceDto, MakeupPDFDto } from './types/api.types'
+import {
+    AbortError,
+    AuthError,
+    InvalidCredentialsError,
+    InvoApiError,
+    InvoiceValidationError,
+    NetworkError,
+    OAuthError,
+    TimeoutError,
+    TokenExpiredError,
+    createApiError,
+    isDuplicateError,
+    parseFieldErrors,
+} from './errors'
+import { isTokenExpired, isValidEmail } from './utils'
+import {
+    computeBackoffDelay,
+    isRetryableMethod,
+    parseRetryAfter,
+    resolveRetryPolicy,
+    sleep,
+    type RetryPolicy,
+} from './retry'
+import type {
+    LoginDto,
+    LoginResponseDto,
+    OAuthCallbackDto,
+    RegisterDto,
+    UserDto,
+    CreateInvoiceDto,
+    MakeupPDFDto,
+    SwitchWorkspaceDto,
+    WorkspaceDto,
+} from './types/api.types'
 import type { CreateInvoiceResult, InvoiceReaderResult } from './types/index'
-import type { InvoSDKConfig } from './types/sdk.types'
+import type {
+    HttpMethod,
+    InvoCredentials,
+    InvoSDKConfig,
+    OAuthCredentials,
+    OAuthProvider,
+    PasswordCredentials,
+    RequestOptions,
+    StoreAndWaitOptions,
+    StoreAndWaitResult,
+    StoreOptions,
+} from './types/sdk.types'
+import type { StoreManyOptions, StoreManyResult } from './types/bulk.types'
+import { validateInvoice, type InvoiceValidationResult } from './validation'
+import { abortable, createRequestSignal } from './abort'
+import { InvoicesResource } from './resources/invoices'
+import { BatchesResource } from './resources/batches'
+import { ProcessingErrorsResource } from './resources/errors'
+import { WorkspacesResource } from './resources/workspaces'
+import { CertificatesResource } from './resources/certificates'
+import { ApiTokensResource } from './resources/api-tokens'
+import { storeMany } from './store-many'
+import { getTokenStoreKey } from './token-store/key'
+import type { StoredSession, TokenStore } from './types/token-store.types'
 
 /**
  * Detect environment from API token prefix
@@ -19,20 +73,125 @@ function detectEnvironmentFromToken(apiToken: string): 'production' | 'sandbox'
     return null
 }
 
+/**
+ * Throw if the credentials are obviously unusable, before calling the API
+ */
+function assertValidCredentials(credentials: InvoCredentials): void {
+    if (credentials.type === 'password' && !isValidEmail(credentials.email)) {
+        throw new Error('Invalid email address.')
+    }
+}
+
+/**
+ * Body fields that are never logged
+ */
+const SECRET_BODY_FIELDS = ['password', 'api_token', 'access_token', 'refresh_token']
+
+/**
+ * Copy of a request body with credentials masked, for logging
+ */
+function redactCredentials(body: unknown): unknown {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return body
+
+    return Object.fromEntries(
+        Object.entries(body).map(([key, value]) => [
+            key,
+            SECRET_BODY_FIELDS.includes(key) ? '[REDACTED]' : value,
+        ]),
+    )
+}
+
+/**
+ * Identity the token store key is derived from, or null if there is none
+ * Always includes the secret, so a stored session is only reused by callers who could log in
+ * themselves: knowing an email address or user ID is not enough
+ */
+function getCredentialsIdentity(credentials: InvoCredentials | null): string | null {
+    switch (credentials?.type) {
+        case 'apiToken':
+            return credentials.apiToken
+        case 'password':
+            return `password:${credentials.email.trim().toLowerCase()}\n${credentials.password}`
+        case 'oauth':
+            return `oauth:${credentials.accessToken}\n${credentials.refreshToken}`
+        default:
+            return null
+    }
+}
+
+/**
+ * Internal options for `apiRequest`
+ */
+interface ApiRequestOptions extends RequestOptions {
+    responseType?: 'json' | 'arrayBuffer'
+    contentType?: string | null
+    debug?: boolean
+    idempotencyKey?: string
+    retryable?: boolean
+    /** Bearer token to send instead of the session one (used while swapping tokens) */
+    accessToken?: string
+    /** Skip the failure log and `onError` (for calls the SDK recovers from itself) */
+    silent?: boolean
+}
+
 /**
  * INVO SDK for backend applications
  * Provides authentication and invoice management functionality
  */
 export class InvoSDK {
-    private apiToken: string
+    private readonly config: InvoSDKConfig
+    private credentials: InvoCredentials | null
     public environment: 'production' | 'sandbox'
     private onError: (error: Error) => void
     private debug: boolean
+    private retryPolicy: RetryPolicy
+    private timeoutMs: number | undefined
 
     // Token storage in memory
     private accessToken: string | null = null
+    private refreshToken: string | null = null
+    private accessTokenExpiresAt: number | null = null
+    private refreshBufferSeconds: number
     private user: UserDto | null = null
-    private loginPromise: Promise<LoginResponseDto> | null = null
+    private loginPromise: Promise<void> | null = null
+    private userWorkspaces: WorkspaceDto[] = []
+    private currentWorkspaceId: string | null = null
+    // Workspace chosen with `switchWorkspace()` / `workspaceId`, re-applied after every login
+    private selectedWorkspaceId: string | null
+    private switchPromise: Promise<void> | null = null
+    private tokenStore: TokenStore | undefined
+    private workspaceScopes = new Map<string, InvoSDK>()
+    private reportedErrors = new WeakSet<Error>()
+
+    /**
+     * Invoices resource (list, get, update, delete, submit)
+     */
+    public readonly invoices: InvoicesResource
+
+    /**
+     * Submission batches resource (list, get, setStatus, waitFor)
+     */
+    public readonly batches: BatchesResource
+
+    /**
+     * Processing errors resource (list, resolve, unresolvedByInvoice)
+     */
+    public readonly errors: ProcessingErrorsResource
+
+    /**
+     * Workspaces resource (create, list, current, get, update, delete)
+     */
+    public readonly workspaces: WorkspacesResource
+
+    /**
+     * Digital certificate resource (upload, info, remove, daysUntilExpiry)
+     */
+    public readonly certificates: CertificatesResource
+
+    /**
+     * API tokens resource (list, create, get, revoke, delete, rotate)
+     */
+    public readonly apiTokens: ApiTokensResource
 
     /**
      * Create a new InvoSDK instance
@@ -42,6 +201,11 @@ export class InvoSDK {
      * // Basic usage
      * const sdk = new InvoSDK({ apiToken: 'invo_tok_prod_...' })
      *
+     * // Staff login for back-office tools
+     * const sdk = new InvoSDK({
+     *   credentials: { type: 'password', email: 'admin@example.com', password },
+     * })
+     *
      * // With debug logging enabled
      * const sdk = new InvoSDK({
      *   apiToken: 'invo_tok_prod_...',
@@ -58,14 +222,48 @@ export class InvoSDK {
             throw new Error('Invalid environment. Allowed values are production, sandbox.')
         }
 
-        this.apiToken = config.apiToken
+        if (config.apiToken && config.credentials) {
+            throw new Error('Pass either apiToken or credentials, not both.')
+        }
+
+        this.config = config
+        this.credentials =
+            config.credentials ??
+            (config.apiToken ? { type: 'apiToken', apiToken: config.apiToken } : null)
+        if (this.credentials) {
+            assertValidCredentials(this.credentials)
+        }
+        this.selectedWorkspaceId = config.workspaceId ?? null
+        this.tokenStore = config.tokenStore
         this.debug = config.debug || false
+        this.retryPolicy = resolveRetryPolicy(config.retry)
+        this.timeoutMs = config.timeoutMs
+        this.refreshBufferSeconds = config.refreshBufferSeconds ?? 60
 
         // Auto-detect environment from API token if not provided
-        const detectedEnv = detectEnvironmentFromToken(this.apiToken)
+        const detectedEnv =
+            this.credentials?.type === 'apiToken'
+                ? detectEnvironmentFromToken(this.credentials.apiToken)
+                : null
         this.environment = config.environment || detectedEnv || 'production'
 
         this.onError = config.onError || (() => {})
+
+        const requester = <T>(
+            endpoint: string,
+            method?: HttpMethod,
+            body?: unknown,
+            options?: RequestOptions,
+        ) => this.apiRequest<T>(endpoint, method, body, true, options)
+        this.invoices = new InvoicesResource(requester)
+        this.batches = new BatchesResource(requester)
+        this.errors = new ProcessingErrorsResource(requester)
+        this.workspaces = new WorkspacesResource(
+            requester,
+            config.onWarning ?? ((message) => console.warn(`INVO SDK: ${message}`)),
+        )
+        this.certificates = new CertificatesResource(requester)
+        this.apiTokens = new ApiTokensResource(requester)
     }
 
     /**
@@ -79,70 +277,233 @@ export class InvoSDK {
 
     /**
      * Ensure the SDK is authenticated
-     * Automatically logs in with API token if not already authenticated
+     * Automatically refreshes the token, or logs in with the credentials, when needed
+     *
+     * @param signal - Stops waiting when aborted; a shared login or switch keeps running
+     */
+    private async ensureAuthenticated(signal?: AbortSignal): Promise<void> {
+        // A workspace switch is swapping the token, wait for the new one
+        if (this.switchPromise) {
+            await abortable(
+                this.switchPromise.catch(() => {}),
+                signal,
+            )
+        }
+
+        await this.ensureLoggedIn(signal)
+    }
+
+    /**
+     * Renew the session if there is no access token or it is about to expire
+     *
+     * @param signal - Stops waiting when aborted; the renewal keeps running for other callers
      */
-    private async ensureAuthenticated(): Promise<void> {
-        // Already authenticated
-        if (this.accessToken && !isTokenExpired(this.accessToken)) {
+    private async ensureLoggedIn(signal?: AbortSignal): Promise<void> {
+        // Already authenticated and not about to expire
+        if (!this.shouldRefresh()) {
             return
         }
 
-        // Login in progress, wait for it
-        if (this.loginPromise) {
-            await this.loginPromise
+        // Refresh the session, or auto-login with the credentials, unless already in progress
+        if (!this.loginPromise) {
+            const renewing = this.renewSession().finally(() => {
+                if (this.loginPromise === renewing) {
+                    this.loginPromise = null
+                }
+            })
+            this.loginPromise = renewing
+        }
+
+        await abortable(this.loginPromise, signal)
+    }
+
+    /**
+     * Whether the access token is missing or expires within `refreshBufferSeconds`
+     */
+    private shouldRefresh(): boolean {
+        if (!this.accessToken) return true
+
+        if (
+            this.accessTokenExpiresAt !== null &&
+            Date.now() >= this.accessTokenExpiresAt - this.refreshBufferSeconds * 1000
+        ) {
+            return true
+        }
+
+        return isTokenExpired(this.accessToken, this.refreshBufferSeconds)
+    }
+
+    /**
+     * Get a new access token
+     * Uses the refresh token when there is one, and falls back to logging in with the credentials
+     *
+     * @param restore - Whether a session from the token store can be used
+     */
+    private async renewSession(restore = true): Promise<void> {
+        // Another instance may already have a fresh session
+        if (restore && (await this.restoreSession())) {
             return
         }
 
-        // Auto-login with API token
-        this.loginPromise = this.loginWithToken()
+        let refreshed = false
+
+        if (this.refreshToken) {
+            try {
+                await this.refreshSession()
+                refreshed = true
+            } catch (error) {
+                if (this.debug) {
+                    console.log('Token refresh failed, logging in again:', error)
+                }
+                this.refreshToken = null
+            }
+        }
+
+        if (!refreshed) {
+            await this.authenticate()
+        }
+
+        // Re-apply the selected workspace, login returns the default one
+        if (this.selectedWorkspaceId && this.currentWorkspaceId !== this.selectedWorkspaceId) {
+            await this.exchangeWorkspaceToken(this.selectedWorkspaceId)
+        }
+
+        await this.persistSession()
+    }
+
+    /**
+     * Token store key of this session, or null if it must not be stored
+     * Password and OAuth sessions are only stored with a `tokenStoreSecret`
+     */
+    private get tokenStoreKey(): string | null {
+        const identity = getCredentialsIdentity(this.credentials)
+        if (!identity) return null
+
+        const secret = this.config.tokenStoreSecret
+        if (this.credentials?.type !== 'apiToken' && !secret) return null
+
+        return getTokenStoreKey(identity, this.environment, this.selectedWorkspaceId, secret)
+    }
+
+    /**
+     * Adopt the stored session if it is newer than ours and not about to expire
+     * Picks up the refresh token too, so an expiring stored session can still be refreshed
+     *
+     * @returns Whether the stored session can be used as is
+     */
+    private async restoreSession(): Promise<boolean> {
+        const key = this.tokenStoreKey
+        if (!this.tokenStore || !key) return false
+
+        let stored: StoredSession | null
+        try {
+            stored = await this.tokenStore.get(key)
+        } catch (error) {
+            if (this.debug) console.log('Token store read failed:', error)
+            return false
+        }
+        if (!stored || stored.accessToken === this.accessToken) return false
+
+        this.accessToken = stored.accessToken
+        this.refreshToken = stored.refreshToken ?? this.refreshToken
+        this.accessTokenExpiresAt = stored.expiresAt ?? null
+        this.user = stored.user ?? this.user
+        this.userWorkspaces = stored.workspaces ?? this.userWorkspaces
+        this.currentWorkspaceId = stored.currentWorkspaceId ?? this.currentWorkspaceId
+
+        return !this.shouldRefresh()
+    }
+
+    /**
+     * Save the current session to the token store
+     * Store failures are not fatal: the session is simply not shared
+     */
+    private async persistSession(): Promise<void> {
+        const key = this.tokenStoreKey
+        if (!this.tokenStore || !key || !this.accessToken) return
+
+        const session: StoredSession = {
+            accessToken: this.accessToken,
+            refreshToken: this.refreshToken,
+            expiresAt: this.accessTokenExpiresAt,
+            user: this.user,
+            workspaces: this.userWorkspaces,
+            currentWorkspaceId: this.currentWorkspaceId,
+        }
+
         try {
-            await this.loginPromise
-        } finally {
-            this.loginPromise = null
+            await this.tokenStore.set(key, session)
+        } catch (error) {
+            if (this.debug) console.log('Token store write failed:', error)
         }
     }
 
+    /**
+     * Exchange the refresh token for a new access token
+     * Failures are not reported: the fallback login reports its own
+     */
+    private async refreshSession(): Promise<LoginResponseDto> {
+        const response = await this.apiRequest<LoginResponseDto>(
+            '/auth/refresh',
+            'POST',
+            { refresh_token: this.refreshToken },
+            false,
+            { silent: true },
+        )
+
+        this.saveTokens(response)
+        return response
+    }
+
     /**
      * Make authenticated API request
      */
     private async apiRequest<T>(
         endpoint: string,
-        method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+        method: HttpMethod = 'GET',
         body?: unknown,
         requiresAuth = true,
-        options?: {
-            responseType?: 'json' | 'arrayBuffer'
-            contentType?: string | null
-            debug?: boolean
-        },
+        options?: ApiRequestOptions,
     ): Promise<T> {
+        const timeoutMs = options?.timeoutMs ?? this.timeoutMs
+        const requestSignal = createRequestSignal(timeoutMs, options?.signal)
+
         try {
             const url = `${this.apiUrl}${endpoint}`
             const headers: HeadersInit = {}
+            let sessionToken: string | null = null
 
             // Optional debug logging
             if (this.debug) {
                 console.log('API Request:', {
                     url,
                     method,
-                    body: body instanceof FormData ? '[FormData]' : body,
+                    body: body instanceof FormData ? '[FormData]' : redactCredentials(body),
                 })
             }
 
-            if (options?.contentType !== null) {
+            // FormData bodies get their multipart boundary from fetch
+            if (options?.contentType !== null && !(body instanceof FormData)) {
                 headers['Content-Type'] = options?.contentType || 'application/json'
             }
 
             // Add authorization header if required
             if (requiresAuth) {
                 // Ensure we're authenticated (auto-login if needed)
-                await this.ensureAuthenticated()
+                await this.ensureAuthenticated(requestSignal.signal)
 
                 if (!this.accessToken) {
                     throw new TokenExpiredError('No access token available after authentication.')
                 }
 
-                headers['Authorization'] = `Bearer ${this.accessToken}`
+                sessionToken = this.accessToken
+                headers['Authorization'] = `Bearer ${sessionToken}`
+            } else if (options?.accessToken) {
+                headers['Authorization'] = `Bearer ${options.accessToken}`
+            }
+
+            if (options?.idempotencyKey) {
+                headers['Idempotency-Key'] = options.idempotencyKey
             }
 
             // Prepare body based on content type
@@ -155,11 +516,41 @@ export class InvoSDK {
                 }
             }
 
-            const response = await fetch(url, {
-                method,
-                headers,
-                body: requestBody,
-            })
+            const retryable =
+                options?.retryable ??
+                isRetryableMethod(this.retryPolicy, method, options?.idempotencyKey)
+
+            let response = await this.fetchWithRetry(
+                url,
+                { method, headers, body: requestBody, signal: requestSignal.signal },
+                retryable,
+            )
+
+            // The token was revoked or rotated before its expiry: log in again and replay once
+            if (response.status === 401 && sessionToken) {
+                await response.body?.cancel().catch(() => {})
+
+                if (this.debug) {
+                    console.log('API Request Unauthorized, re-authenticating:', {
+                        endpoint,
+                        method,
+                    })
+                }
+
+                await this.invalidateSession(sessionToken)
+                await this.ensureAuthenticated(requestSignal.signal)
+
+                if (!this.accessToken) {
+                    throw new TokenExpiredError('No access token available after authentication.')
+                }
+
+                headers['Authorization'] = `Bearer ${this.accessToken}`
+                response = await this.fetchWithRetry(
+                    url,
+                    { method, headers, body: requestBody, signal: requestSignal.signal },
+                    retryable,
+                )
+            }
 
             if (!response.ok) {
                 const error = await response.json().catch(() => ({
@@ -167,31 +558,46 @@ export class InvoSDK {
                 }))
 
                 // Log detailed error information for debugging
-                console.error('API Request Failed:', {
-                    endpoint,
-                    method,
-                    status: response.status,
-                    statusText: response.statusText,
-                    error,
-                    sentBody: body instanceof FormData ? '[FormData]' : body,
-                })
+                if (!options?.silent) {
+                    console.error('API Request Failed:', {
+                        endpoint,
+                        method,
+                        status: response.status,
+                        statusText: response.statusText,
+                        error,
+                        sentBody: body instanceof FormData ? '[FormData]' : redactCredentials(body),
+                    })
+                }
 
                 if (response.status === 401) {
                     throw new InvalidCredentialsError(error.message || 'Invalid credentials')
                 }
 
                 // Build detailed error message
-                let errorMessage = error.message || 'Request failed'
+                let errorMessage = Array.isArray(error.message)
+                    ? error.message.join(', ')
+                    : error.message || 'Request failed'
 
                 // Add validation errors if present
-                if (error.errors) {
-                    const validationErrors = Array.isArray(error.errors)
-                        ? error.errors.join(', ')
-                        : JSON.stringify(error.errors)
+                const fieldErrors = parseFieldErrors(error.errors)
+                if (fieldErrors.length > 0) {
+                    const validationErrors = fieldErrors
+                        .map(({ field, message }) => (field ? `${field}: ${message}` : message))
+                        .join(', ')
                     errorMessage += ` - Validation errors: ${validationErrors}`
                 }
 
-                throw new AuthError(errorMessage, response.status)
+                throw createApiError(
+                    response.status,
+                    errorMessage,
+                    {
+                        body: error,
+                        requestId: response.headers.get('x-request-id'),
+                        endpoint,
+                        method,
+                    },
+                    parseRetryAfter(response.headers.get('retry-after')),
+                )
             }
 
             // Return based on response type
@@ -220,27 +626,161 @@ export class InvoSDK {
                 return (await response.arrayBuffer()) as T
             }
 
-            return response.json()
+            // Empty responses (e.g. 204 No Content on DELETE)
+            const text = await response.text()
+            return (text ? JSON.parse(text) : undefined) as T
         } catch (error) {
-            if (error instanceof AuthError) {
-                this.onError(error)
+            // Errors of nested calls (e.g. the auto-login) reach `onError` only once
+            const report = (reported: Error) => {
+                if (options?.silent || this.reportedErrors.has(reported)) return
+                this.reportedErrors.add(reported)
+                this.onError(reported)
+            }
+
+            if (requestSignal.signal?.aborted) {
+                const abortError = requestSignal.timedOut()
+                    ? new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs)
+                    : new AbortError()
+                report(abortError)
+                throw abortError
+            }
+
+            if (error instanceof AuthError || error instanceof InvoApiError) {
+                report(error)
                 throw error
             }
 
             const networkError = new NetworkError(
                 error instanceof Error ? error.message : 'Network request failed',
             )
-            this.onError(networkError)
+            report(networkError)
             throw networkError
+        } finally {
+            requestSignal.cleanup()
+        }
+    }
+
+    /**
+     * Perform a fetch call, retrying transient failures according to the retry policy
+     * Honours the `Retry-After` header on retryable responses
+     */
+    private async fetchWithRetry(
+        url: string,
+        init: RequestInit,
+        retryable: boolean,
+    ): Promise<Response> {
+        const policy = this.retryPolicy
+        const maxAttempts = retryable ? policy.maxAttempts : 1
+
+        for (let attempt = 1; ; attempt++) {
+            let response: Response
+
+            try {
+                response = await fetch(url, init)
+            } catch (error) {
+                if (init.signal?.aborted || attempt >= maxAttempts || !policy.retryOnNetworkError) {
+                    throw error
+                }
+
+                const delayMs = computeBackoffDelay(policy, attempt)
+                this.logRetry(url, init.method, attempt, maxAttempts, delayMs, error)
+                await sleep(delayMs, init.signal ?? undefined)
+                continue
+            }
+
+            if (
+                response.ok ||
+                attempt >= maxAttempts ||
+                !policy.retryOnStatus.includes(response.status)
+            ) {
+                return response
+            }
+
+            const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+
+            // The server asked for a longer wait than we accept: surface the error instead
+            // of retrying early (`RateLimitError.retryAfterMs` tells the caller how long)
+            if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+                return response
+            }
+
+            const delayMs = retryAfterMs ?? computeBackoffDelay(policy, attempt)
+
+            this.logRetry(url, init.method, attempt, maxAttempts, delayMs, response.status)
+
+            // Release the connection before retrying
+            await response.body?.cancel().catch(() => {})
+            await sleep(delayMs, init.signal ?? undefined)
+        }
+    }
+
+    /**
+     * Log a retry attempt when debug logging is enabled
+     */
+    private logRetry(
+        url: string,
+        method: string | undefined,
+        attempt: number,
+        maxAttempts: number,
+        delayMs: number,
+        reason: unknown,
+    ): void {
+        if (!this.debug) return
+
+        console.log('API Request Retry:', {
+            url,
+            method,
+            attempt,
+            maxAttempts,
+            delayMs,
+            reason:
+                typeof reason === 'number'
+                    ? `HTTP ${reason}`
+                    : reason instanceof Error
+                      ? reason.message
+                      : String(reason),
+        })
+    }
+
+    /**
+     * Drop a session the API rejected, so the next request logs in again
+     * The in-memory token is kept if another request already replaced it
+     */
+    private async invalidateSession(rejectedToken: string): Promise<void> {
+        if (this.accessToken === rejectedToken) {
+            this.accessToken = null
+            this.refreshToken = null
+            this.accessTokenExpiresAt = null
+        }
+
+        // Don't let this or other instances pick the rejected session up again
+        const key = this.tokenStoreKey
+        if (this.tokenStore && key) {
+            try {
+                const stored = await this.tokenStore.get(key)
+                if (stored?.accessToken === rejectedToken) {
+                    await this.tokenStore.delete(key)
+                }
+            } catch (error) {
+                if (this.debug) console.log('Token store delete failed:', error)
+            }
         }
     }
 
     /**
      * Save authentication tokens in memory
      */
-    private saveTokens(response: LoginResponseDto): void {
+    private saveTokens(
+        response: Pick<LoginResponseDto, 'access_token'> & Partial<LoginResponseDto>,
+    ): void {
         this.accessToken = response.access_token
-        this.user = response.user
+        this.refreshToken = response.refresh_token ?? this.refreshToken
+        this.accessTokenExpiresAt = response.expires_in
+            ? Date.now() + response.expires_in * 1000
+            : null
+        this.user = response.user ?? this.user
+        this.userWorkspaces = response.workspaces ?? this.userWorkspaces
+        this.currentWorkspaceId = response.current_workspace_id ?? this.currentWorkspaceId
     }
 
     /**
@@ -257,6 +797,112 @@ export class InvoSDK {
         return this.user
     }
 
+    /**
+     * Get the workspaces of the authenticated user, as returned by the last login
+     */
+    getWorkspaces(): WorkspaceDto[] {
+        return [...this.userWorkspaces]
+    }
+
+    /**
+     * Get the ID of the workspace the access token is bound to
+     */
+    getCurrentWorkspaceId(): string | null {
+        return this.currentWorkspaceId
+    }
+
+    /**
+     * Switch the session to another workspace
+     * Requests already in flight finish with the previous token; requests started
+     * while switching wait for the new one. The workspace is kept across re-logins
+     *
+     * @example
+     * ```typescript
+     * await sdk.switchWorkspace(workspaceId)
+     * console.log(sdk.getCurrentWorkspaceId()) // workspaceId
+     * ```
+     */
+    async switchWorkspace(workspaceId: string, options?: RequestOptions): Promise<void> {
+        const previous = this.switchPromise
+
+        const switching = (async () => {
+            // Apply switches in call order
+            await previous?.catch(() => {})
+            await this.ensureLoggedIn()
+
+            if (this.currentWorkspaceId !== workspaceId) {
+                await this.exchangeWorkspaceToken(workspaceId, options)
+            }
+            this.selectedWorkspaceId = workspaceId
+            await this.persistSession()
+        })()
+
+        this.switchPromise = switching
+        try {
+            await switching
+        } finally {
+            if (this.switchPromise === switching) {
+                this.switchPromise = null
+            }
+        }
+    }
+
+    /**
+     * Run `fn` against a workspace without switching this instance
+     * Each workspace gets its own session (created once and reused), so several
+     * scopes can run concurrently
+     *
+     * @example
+     * ```typescript
+     * await Promise.all(
+     *   companies.map((company) =>
+     *     sdk.withWorkspace(company.workspaceId, (scoped) => scoped.store(company.invoice)),
+     *   ),
+     * )
+     * ```
+     */
+    async withWorkspace<T>(workspaceId: string, fn: (sdk: InvoSDK) => Promise<T> | T): Promise<T> {
+        let scoped = this.workspaceScopes.get(workspaceId)
+        if (!scoped) {
+            scoped = new InvoSDK({
+                ...this.config,
+                apiToken: undefined,
+                credentials: this.credentials ?? undefined,
+                environment: this.environment,
+                workspaceId,
+            })
+            this.workspaceScopes.set(workspaceId, scoped)
+        }
+
+        return fn(scoped)
+    }
+
+    /**
+     * Exchange the current access token for one bound to another workspace
+     */
+    private async exchangeWorkspaceToken(
+        workspaceId: string,
+        options?: RequestOptions,
+    ): Promise<void> {
+        if (!this.accessToken) {
+            throw new TokenExpiredError('No access token available to switch workspace.')
+        }
+
+        const body: SwitchWorkspaceDto = { workspace_id: workspaceId }
+        const response = await this.apiRequest<LoginResponseDto>(
+            '/auth/switch-workspace',
+            'POST',
+            body,
+            false,
+            { ...options, accessToken: this.accessToken, retryable: true },
+        )
+
+        this.saveTokens({
+            ...response,
+            current_workspace_id: response.current_workspace_id ?? workspaceId,
+        })
+    }
+
     /**
      * Check if user is authenticated
      */
@@ -275,6 +921,7 @@ export class InvoSDK {
      *
      * @param data - Invoice data
      * @param callback - Optional webhook URL to receive status updates for this invoice
+     * @param options - Per-call options (timeout, abort signal, local validation, idempotency key)
      *
      * @example
      * ```typescript
@@ -301,21 +948,141 @@ export class InvoSDK {
      * // With webhook to receive status updates
      * const result = await sdk.store({...}, 'https://myapp.com/webhooks/invo')
      * console.log('Invoice created:', result.invoiceId)
+     *
+     * // Storing the same externalId twice resolves to the existing invoice
+     * const again = await sdk.store({...})
+     * console.log(again.duplicate) // true
      * ```
      */
-    async store(data: CreateInvoiceDto, callback?: string): Promise<CreateInvoiceResult> {
+    async store(
+        data: CreateInvoiceDto,
+        callback?: string,
+        options?: StoreOptions,
+    ): Promise<CreateInvoiceResult> {
+        if (options?.validate) {
+            const { valid, issues } = this.validateInvoice(data)
+            if (!valid) {
+                const error = new InvoiceValidationError(
+                    `Invoice validation failed: ${issues.map((issue) => issue.message).join('; ')}`,
+                    issues,
+                )
+                this.onError(error)
+                throw error
+            }
+        }
+
         const payload: CreateInvoiceDto & { callback?: string } = {
             ...data,
-            ...(callback && { callback })
+            ...(callback && { callback }),
         }
 
-        return this.apiRequest<CreateInvoiceResult>('/invoice/store', 'POST', payload)
+        const idempotencyKey =
+            options?.idempotencyKey === false
+                ? undefined
+                : options?.idempotencyKey || `invoice-store:${data.externalId}`
+
+        try {
+            return await this.apiRequest<CreateInvoiceResult>(
+                '/invoice/store',
+                'POST',
+                payload,
+                true,
+                { ...options, idempotencyKey },
+            )
+        } catch (error) {
+            if (!isDuplicateError(error)) throw error
+
+            // The invoice was already registered (e.g. a previous attempt timed out
+            // after the server stored it): resolve to the existing record
+            const existing = await this.invoices.findByExternalId(
+                data.externalId,
+                { search: data.invoiceNumber },
+                options,
+            )
+            if (!existing) throw error
+
+            return {
+                success: true,
+                invoiceId: existing.id,
+                chainIndex: existing.chainIndex,
+                duplicate: true,
+            }
+        }
+    }
+
+    /**
+     * Create an invoice and poll it until AEAT responds
+     * Alternative to a webhook callback when no public URL is available
+     *
+     * @param data - Invoice data
+     * @param options - `store()` options, plus `wait` polling options
+     * @throws WaitTimeoutError if the invoice does not reach a final status within `wait.timeoutMs`
+     *
+     * @example
+     * ```typescript
+     * const { invoice } = await sdk.storeAndWait(invoiceData, { wait: { timeoutMs: 120000 } })
+     * console.log(invoice.status) // 'ACCEPTED', 'ACCEPTED_WITH_WARNINGS', 'REJECTED' or 'FAILED'
+     * ```
+     */
+    async storeAndWait(
+        data: CreateInvoiceDto,
+        options: StoreAndWaitOptions = {},
+    ): Promise<StoreAndWaitResult> {
+        const { wait, ...storeOptions } = options
+
+        const result = await this.store(data, undefined, storeOptions)
+        const invoice = await this.invoices.waitForStatus(result.invoiceId, {
+            signal: storeOptions.signal,
+            ...wait,
+        })
+
+        return { ...result, invoice }
+    }
+
+    /**
+     * Create and submit many invoices with bounded concurrency
+     * Invoices of the same series are submitted in input order, so the hash chain stays
+     * consistent. Never rejects: each invoice gets a success, error or skipped result
+     *
+     * @param invoices - Invoices to submit
+     * @param options - Concurrency, error handling, progress callback and `store()` options
+     *
+     * @example
+     * ```typescript
+     * const { succeeded, failed, results } = await sdk.storeMany(invoices, {
+     *   concurrency: 10,
+     *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+     * })
+     *
+     * for (const result of results) {
+     *   if (result.status === 'error') console.error(result.externalId, result.error.message)
+     * }
+     * ```
+     */
+    storeMany(invoices: CreateInvoiceDto[], options?: StoreManyOptions): Promise<StoreManyResult> {
+        return storeMany(this, invoices, options)
+    }
+
+    /**
+     * Validate an invoice locally without calling the API
+     * Checks invoice number characters, totals, tax and surcharge rates,
+     * rectified invoices for R1-R4 and the issue date format
+     *
+     * @example
+     * ```typescript
+     * const { valid, issues } = sdk.validateInvoice(invoiceData)
+     * if (!valid) console.error(issues)
+     * ```
+     */
+    validateInvoice(data: CreateInvoiceDto): InvoiceValidationResult {
+        return validateInvoice(data)
     }
 
     /**
      * Read invoice data from uploaded file
      *
      * @param file - The invoice file to read (PDF, XML, etc.)
+     * @param options - Per-call options (timeout, abort signal)
      * @returns Parsed invoice data
      *
      * @example
@@ -326,11 +1093,12 @@ export class InvoSDK {
      * const invoiceData = await sdk.read(file)
      * ```
      */
-    async read(file: File | Blob): Promise<InvoiceReaderResult> {
+    async read(file: File | Blob, options?: RequestOptions): Promise<InvoiceReaderResult> {
         const formData = new FormData()
         formData.append('file', file)
 
         return this.apiRequest<InvoiceReaderResult>('/reader', 'POST', formData, true, {
+            ...options,
             contentType: null,
         })
     }
@@ -339,6 +1107,7 @@ export class InvoSDK {
      * Generate a PDF invoice with custom branding
      *
      * @param data - Invoice makeup configuration
+     * @param options - Per-call options (timeout, abort signal)
      * @returns PDF as ArrayBuffer
      *
      * @example
@@ -384,25 +1153,180 @@ export class InvoSDK {
      * fs.writeFileSync('invoice.pdf', Buffer.from(pdfBuffer))
      * ```
      */
-    async pdf(data: MakeupPDFDto): Promise<ArrayBuffer> {
+    async pdf(data: MakeupPDFDto, options?: RequestOptions): Promise<ArrayBuffer> {
         return this.apiRequest<ArrayBuffer>('/makeup', 'POST', data, true, {
+            ...options,
             responseType: 'arrayBuffer',
         })
     }
 
+    /**
+     * Log in now instead of on the first request
+     * The credentials are always checked against the API, a stored session is never reused.
+     * Pass credentials to replace the configured ones, e.g. from an interactive sign-in form
+     *
+     * @returns The logged in user
+     * @throws InvalidCredentialsError if the API token or the email and password are rejected
+     * @throws OAuthError if the OAuth tokens are rejected
+     *
+     * @example
+     * ```typescript
+     * const sdk = new InvoSDK({ environment: 'production' })
+     * const user = await sdk.login({ type: 'password', email, password })
+     * ```
+     */
+    async login(credentials?: InvoCredentials): Promise<UserDto | null> {
+        if (credentials) {
+            assertValidCredentials(credentials)
+        }
+
+        // Let a switch or renewal in progress settle before replacing the session
+        await this.switchPromise?.catch(() => {})
+        await this.loginPromise?.catch(() => {})
+
+        if (credentials) {
+            this.credentials = credentials
+            this.selectedWorkspaceId = this.config.workspaceId ?? null
+            this.workspaceScopes.clear()
+        }
+        this.clearSession()
+
+        this.loginPromise = this.renewSession(false)
+        try {
+            await this.loginPromise
+        } finally {
+            this.loginPromise = null
+        }
+
+        return this.user
+    }
+
+    /**
+     * Create a user account with email and password
+     * Does not log in: call `login()` once the account is confirmed
+     *
+     * @example
+     * ```typescript
+     * await sdk.register({ email: 'new.admin@example.com', password })
+     * ```
+     */
+    async register(data: RegisterDto, options?: RequestOptions): Promise<void> {
+        if (!isValidEmail(data.email)) {
+            throw new Error('Invalid email address.')
+        }
+
+        await this.apiRequest<void>('/auth/register', 'POST', data, false, options)
+    }
+
+    /**
+     * URL that starts the OAuth sign-in with a provider
+     * Send the user's browser there, then pass the tokens the redirect returns to
+     * `login({ type: 'oauth', accessToken, refreshToken })`
+     */
+    getOAuthUrl(provider: OAuthProvider): string {
+        return `${this.apiUrl}/auth/oauth/${encodeURIComponent(provider)}`
+    }
+
+    /**
+     * Forget the session in memory
+     */
+    private clearSession(): void {
+        this.accessToken = null
+        this.refreshToken = null
+        this.accessTokenExpiresAt = null
+        this.user = null
+        this.userWorkspaces = []
+        this.currentWorkspaceId = null
+    }
+
+    /**
+     * Log in with the credentials (internal method)
+     */
+    private async authenticate(): Promise<void> {
+        const credentials = this.credentials
+
+        switch (credentials?.type) {
+            case 'apiToken':
+                await this.loginWithToken(credentials.apiToken)
+                return
+            case 'password':
+                await this.loginWithPassword(credentials)
+                return
+            case 'oauth':
+                await this.loginWithOAuth(credentials)
+                return
+            default:
+                throw new AuthError(
+                    'No credentials to log in with. Pass apiToken or credentials, or call login().',
+                )
+        }
+    }
+
     /**
      * Login with API Token (internal method)
      */
-    private async loginWithToken(): Promise<LoginResponseDto> {
+    private async loginWithToken(apiToken: string): Promise<void> {
         const response = await this.apiRequest<LoginResponseDto>(
             '/auth/token',
             'POST',
-            { api_token: this.apiToken },
+            { api_token: apiToken },
             false, // Don't require auth for login
+            { retryable: true }, // Exchanging the API token has no side effects
         )
 
         this.saveTokens(response)
-        return response
+    }
+
+    /**
+     * Login with email and password (internal method)
+     */
+    private async loginWithPassword(credentials: PasswordCredentials): Promise<void> {
+        const body: LoginDto = { email: credentials.email, password: credentials.password }
+        const response = await this.apiRequest<LoginResponseDto>(
+            '/auth/login',
+            'POST',
+            body,
+            false,
+            {
+                retryable: true,
+            },
+        )
+
+        this.saveTokens(response)
+    }
+
+    /**
+     * Login with an OAuth token pair (internal method)
+     * The callback validates the provider tokens; they become the session unless it returns new ones
+     */
+    private async loginWithOAuth(credentials: OAuthCredentials): Promise<void> {
+        const body: OAuthCallbackDto = {
+            access_token: credentials.accessToken,
+            refresh_token: credentials.refreshToken,
+            expires_in: credentials.expiresIn,
+        }
+
+        let response: Partial<LoginResponseDto> | undefined
+        try {
+            response = await this.apiRequest<Partial<LoginResponseDto> | undefined>(
+                '/auth/oauth/callback',
+                'POST',
+                body,
+                false,
+            )
+        } catch (error) {
+            if (error instanceof AuthError) {
+                throw new OAuthError(error.message)
+            }
+            throw error
+        }
+
+        this.saveTokens({
+            ...response,
+            access_token: response?.access_token ?? credentials.accessToken,
+            refresh_token: response?.refresh_token ?? credentials.refreshToken,
+            expires_in: response?.expires_in ?? credentials.expiresIn,
+        })
     }
 
     /**
@@ -411,13 +1335,14 @@ export class InvoSDK {
      * @param endpoint - The API endpoint (e.g., '/users/me')
      * @param method - HTTP method
      * @param body - Request body (optional)
+     * @param options - Per-call options (timeout, abort signal)
      */
     async request<T>(
         endpoint: string,
-        method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+        method: HttpMethod = 'GET',
         body?: unknown,
+        options?: RequestOptions,
     ): Promise<T> {
-        return this.apiRequest<T>(endpoint, method, body)
+        return this.apiRequest<T>(endpoint, method, body, true, options)
     }
 }
-
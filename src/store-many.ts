@@ -0,0 +1,133 @@
+import type { InvoSDK } from './sdk'
+import type { CreateInvoiceDto } from './types/api.types'
+import type {
+    StoreManyItemResult,
+    StoreManyOptions,
+    StoreManyProgress,
+    StoreManyResult,
+    StoreManySkipped,
+} from './types/bulk.types'
+import { getInvoiceSeries } from './utils'
+
+interface QueuedInvoice {
+    index: number
+    invoice: CreateInvoiceDto
+}
+
+/**
+ * Store many invoices with bounded concurrency
+ * Never rejects: every invoice gets its own result. See `InvoSDK.storeMany`
+ */
+export async function storeMany(
+    sdk: Pick<InvoSDK, 'store'>,
+    invoices: CreateInvoiceDto[],
+    options: StoreManyOptions = {},
+): Promise<StoreManyResult> {
+    const {
+        concurrency = 5,
+        stopOnError = false,
+        preserveOrderPerSeries = true,
+        seriesOf = (invoice: CreateInvoiceDto) => getInvoiceSeries(invoice.invoiceNumber),
+        callback,
+        onProgress,
+        ...storeOptions
+    } = options
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error('concurrency must be a positive integer')
+    }
+
+    // Each queue is submitted sequentially; queues run in parallel
+    const queues: QueuedInvoice[][] = []
+    if (preserveOrderPerSeries) {
+        const bySeries = new Map<string, QueuedInvoice[]>()
+        invoices.forEach((invoice, index) => {
+            const series = seriesOf(invoice)
+            const queue = bySeries.get(series)
+            if (queue) {
+                queue.push({ index, invoice })
+            } else {
+                const newQueue = [{ index, invoice }]
+                bySeries.set(series, newQueue)
+                queues.push(newQueue)
+            }
+        })
+    } else {
+        invoices.forEach((invoice, index) => queues.push([{ index, invoice }]))
+    }
+
+    const results: StoreManyItemResult[] = new Array(invoices.length)
+    const progress: StoreManyProgress = {
+        total: invoices.length,
+        completed: 0,
+        succeeded: 0,
+        failed: 0,
+        skipped: 0,
+    }
+    let stopped = false
+
+    const settle = (result: StoreManyItemResult) => {
+        results[result.index] = result
+        progress.completed++
+        if (result.status === 'success') progress.succeeded++
+        else if (result.status === 'error') progress.failed++
+        else progress.skipped++
+        try {
+            onProgress?.({ ...progress }, result)
+        } catch {
+            // A failing progress callback must not change the outcome of the invoice
+        }
+    }
+
+    const skip = ({ index, invoice }: QueuedInvoice, reason: StoreManySkipped['reason']) =>
+        settle({ status: 'skipped', index, externalId: invoice.externalId, reason })
+
+    const runQueue = async (queue: QueuedInvoice[]) => {
+        let seriesFailed = false
+
+        for (const item of queue) {
+            if (storeOptions.signal?.aborted) {
+                skip(item, 'aborted')
+            } else if (stopped) {
+                skip(item, 'stopped')
+            } else if (seriesFailed) {
+                skip(item, 'series_failed')
+            } else {
+                const { index, invoice } = item
+                let result: StoreManyItemResult
+                try {
+                    const response = await sdk.store(invoice, callback, storeOptions)
+                    result = {
+                        status: 'success',
+                        index,
+                        externalId: invoice.externalId,
+                        invoiceId: response.invoiceId,
+                        chainIndex: response.chainIndex,
+                        ...(response.duplicate && { duplicate: true }),
+                    }
+                } catch (error) {
+                    seriesFailed = true
+                    if (stopOnError) stopped = true
+                    result = {
+                        status: 'error',
+                        index,
+                        externalId: invoice.externalId,
+                        error: error instanceof Error ? error : new Error(String(error)),
+                    }
+                }
+                settle(result)
+            }
+        }
+    }
+
+    let next = 0
+    const worker = async () => {
+        while (next < queues.length) {
+            await runQueue(queues[next++])
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, queues.length) }, worker))
+
+    return { ...progress, results }
+}
@@ -0,0 +1,362 @@
+/**
+ * Spanish tax ID (NIF/NIE/CIF) and EU VAT number validation
+ */
+
+/**
+ * Detected tax ID kind
+ */
+export type TaxIdKind = 'NIF' | 'NIE' | 'CIF' | 'EU-VAT'
+
+/**
+ * Result of validating a tax ID
+ */
+export interface TaxIdValidationResult {
+    valid: boolean
+    /** Detected kind, or null when the format is not recognised */
+    kind: TaxIdKind | null
+    /** Country code (`ES` for Spanish IDs, VAT prefix for EU VAT numbers) */
+    country: string | null
+    /** Normalised value that was validated */
+    normalized: string
+    /** Reason why the ID is invalid */
+    reason?: string
+}
+
+const NIF_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE'
+const CIF_CONTROL_LETTERS = 'JABCDEFGHI'
+
+/** CIF organisation types whose control character must be a letter */
+const CIF_LETTER_CONTROL = 'KLMNPQRSW'
+/** CIF organisation types whose control character must be a digit */
+const CIF_DIGIT_CONTROL = 'ABEH'
+
+const NIF_REGEX = /^\d{8}[A-Z]$/
+const NIE_REGEX = /^[XYZ]\d{7}[A-Z]$/
+const CIF_REGEX = /^[ABCDEFGHJKLMNPQRSUVW]\d{7}[0-9A-J]$/
+
+/**
+ * Uppercase and strip spaces, dashes, dots and slashes
+ */
+function cleanTaxId(value: string): string {
+    return value.toUpperCase().replace(/[\s\-./]/g, '')
+}
+
+/**
+ * Normalise a tax ID: uppercase, strip spaces and dashes, and remove
+ * the `ES` prefix from Spanish IDs written as VAT numbers (`ES B12345678`)
+ *
+ * @example
+ * ```typescript
+ * normalizeTaxId('es-b 1234567-8') // 'B12345678'
+ * ```
+ */
+export function normalizeTaxId(value: string): string {
+    const cleaned = cleanTaxId(value)
+    return cleaned.length === 11 && cleaned.startsWith('ES') ? cleaned.slice(2) : cleaned
+}
+
+function invalid(
+    normalized: string,
+    reason: string,
+    kind: TaxIdKind | null = null,
+    country: string | null = null,
+): TaxIdValidationResult {
+    return { valid: false, kind, country, normalized, reason }
+}
+
+/**
+ * Compute the CIF control digit (0-9) from its 7 central digits
+ */
+function cifControlDigit(digits: string): number {
+    let sum = 0
+    for (let i = 0; i < digits.length; i++) {
+        const digit = Number(digits[i])
+        if (i % 2 === 0) {
+            const doubled = digit * 2
+            sum += Math.floor(doubled / 10) + (doubled % 10)
+        } else {
+            sum += digit
+        }
+    }
+    return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Validate a Spanish NIF, NIE or CIF, including its check character
+ *
+ * @example
+ * ```typescript
+ * validateSpanishTaxId('12345678Z') // { valid: true, kind: 'NIF', country: 'ES', ... }
+ * validateSpanishTaxId('B12345674') // { valid: true, kind: 'CIF', country: 'ES', ... }
+ * ```
+ */
+export function validateSpanishTaxId(value: string): TaxIdValidationResult {
+    const normalized = normalizeTaxId(value)
+
+    if (NIF_REGEX.test(normalized)) {
+        const expected = NIF_LETTERS[Number(normalized.slice(0, 8)) % 23]
+        return normalized[8] === expected
+            ? { valid: true, kind: 'NIF', country: 'ES', normalized }
+            : invalid(normalized, `Invalid NIF check letter, expected ${expected}`, 'NIF', 'ES')
+    }
+
+    if (NIE_REGEX.test(normalized)) {
+        const number = 'XYZ'.indexOf(normalized[0]) + normalized.slice(1, 8)
+        const expected = NIF_LETTERS[Number(number) % 23]
+        return normalized[8] === expected
+            ? { valid: true, kind: 'NIE', country: 'ES', normalized }
+            : invalid(normalized, `Invalid NIE check letter, expected ${expected}`, 'NIE', 'ES')
+    }
+
+    if (CIF_REGEX.test(normalized)) {
+        const type = normalized[0]
+        const control = normalized[8]
+        const digit = cifControlDigit(normalized.slice(1, 8))
+        const letter = CIF_CONTROL_LETTERS[digit]
+
+        // K, L and M are special NIFs for individuals using the CIF algorithm
+        const kind: TaxIdKind = 'KLM'.includes(type) ? 'NIF' : 'CIF'
+
+        let valid: boolean
+        if (CIF_LETTER_CONTROL.includes(type)) {
+            valid = control === letter
+        } else if (CIF_DIGIT_CONTROL.includes(type)) {
+            valid = control === String(digit)
+        } else {
+            valid = control === letter || control === String(digit)
+        }
+
+        return valid
+            ? { valid: true, kind, country: 'ES', normalized }
+            : invalid(normalized, `Invalid ${kind} control character`, kind, 'ES')
+    }
+
+    return invalid(normalized, 'Not a valid Spanish NIF, NIE or CIF format')
+}
+
+/**
+ * Digits of a string as numbers
+ */
+function toDigits(value: string): number[] {
+    return value.split('').map(Number)
+}
+
+/**
+ * Weighted sum of digits
+ */
+function weightedSum(digits: number[], weights: number[]): number {
+    return weights.reduce((sum, weight, i) => sum + digits[i] * weight, 0)
+}
+
+/**
+ * Luhn checksum (used by IT and SE)
+ */
+function luhn(value: string): boolean {
+    let sum = 0
+    const digits = toDigits(value).reverse()
+    digits.forEach((digit, i) => {
+        if (i % 2 === 1) {
+            const doubled = digit * 2
+            sum += doubled > 9 ? doubled - 9 : doubled
+        } else {
+            sum += digit
+        }
+    })
+    return sum % 10 === 0
+}
+
+/**
+ * Modulo 97 of a numeric string of any length
+ */
+function mod97(value: string): number {
+    return value.split('').reduce((rest, char) => (rest * 10 + Number(char)) % 97, 0)
+}
+
+interface EuVatRule {
+    format: RegExp
+    checksum?: (number: string) => boolean
+}
+
+/**
+ * EU VAT number formats (without the country prefix) and known checksums
+ */
+const EU_VAT_RULES: Record<string, EuVatRule> = {
+    AT: {
+        format: /^U\d{8}$/,
+        checksum: (number) => {
+            const d = toDigits(number.slice(1))
+            let sum = 0
+            for (let i = 0; i < 7; i++) {
+                sum += i % 2 === 1 ? Math.floor(d[i] / 5) + ((d[i] * 2) % 10) : d[i]
+            }
+            return (10 - ((sum + 4) % 10)) % 10 === d[7]
+        },
+    },
+    BE: {
+        format: /^[01]\d{9}$/,
+        checksum: (number) => 97 - (Number(number.slice(0, 8)) % 97) === Number(number.slice(8)),
+    },
+    BG: { format: /^\d{9,10}$/ },
+    CY: { format: /^\d{8}[A-Z]$/ },
+    CZ: { format: /^\d{8,10}$/ },
+    DE: {
+        format: /^\d{9}$/,
+        checksum: (number) => {
+            // ISO 7064 MOD 11,10
+            const d = toDigits(number)
+            let product = 10
+            for (let i = 0; i < 8; i++) {
+                let sum = (d[i] + product) % 10
+                if (sum === 0) sum = 10
+                product = (2 * sum) % 11
+            }
+            const check = 11 - product
+            return (check === 10 ? 0 : check) === d[8]
+        },
+    },
+    DK: {
+        format: /^\d{8}$/,
+        checksum: (number) => weightedSum(toDigits(number), [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+    },
+    EE: { format: /^\d{9}$/ },
+    EL: {
+        format: /^\d{9}$/,
+        checksum: (number) => {
+            const d = toDigits(number)
+            return (weightedSum(d, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === d[8]
+        },
+    },
+    ES: {
+        format: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+        checksum: (number) => validateSpanishTaxId(number).valid,
+    },
+    FI: {
+        format: /^\d{8}$/,
+        checksum: (number) => {
+            const d = toDigits(number)
+            const rest = weightedSum(d, [7, 9, 10, 5, 8, 4, 2]) % 11
+            if (rest === 1) return false
+            return (rest === 0 ? 0 : 11 - rest) === d[7]
+        },
+    },
+    FR: {
+        format: /^[0-9A-Z]{2}\d{9}$/,
+        checksum: (number) => {
+            // Only numeric keys can be verified
+            if (!/^\d{2}/.test(number)) return true
+            const siren = Number(number.slice(2))
+            return (12 + 3 * (siren % 97)) % 97 === Number(number.slice(0, 2))
+        },
+    },
+    HR: { format: /^\d{11}$/ },
+    HU: { format: /^\d{8}$/ },
+    IE: { format: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/ },
+    IT: { format: /^\d{11}$/, checksum: luhn },
+    LT: { format: /^(\d{9}|\d{12})$/ },
+    LU: {
+        format: /^\d{8}$/,
+        checksum: (number) => Number(number.slice(0, 6)) % 89 === Number(number.slice(6)),
+    },
+    LV: { format: /^\d{11}$/ },
+    MT: { format: /^\d{8}$/ },
+    NL: {
+        format: /^\d{9}B\d{2}$/,
+        checksum: (number) => {
+            const d = toDigits(number.slice(0, 9))
+            const mod11 = weightedSum(d, [9, 8, 7, 6, 5, 4, 3, 2]) % 11
+            if (mod11 !== 10 && mod11 === d[8]) return true
+
+            // Numbers issued since 2020 to sole proprietors use MOD 97 over "NL" + number
+            // (N=23, L=21, B=11)
+            return mod97(`2321${number.slice(0, 9)}11${number.slice(10)}`) === 1
+        },
+    },
+    PL: {
+        format: /^\d{10}$/,
+        checksum: (number) => {
+            const d = toDigits(number)
+            const check = weightedSum(d, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11
+            return check !== 10 && check === d[9]
+        },
+    },
+    PT: {
+        format: /^\d{9}$/,
+        checksum: (number) => {
+            const d = toDigits(number)
+            const check = 11 - (weightedSum(d, [9, 8, 7, 6, 5, 4, 3, 2]) % 11)
+            return (check >= 10 ? 0 : check) === d[8]
+        },
+    },
+    RO: { format: /^\d{2,10}$/ },
+    SE: { format: /^\d{10}01$/, checksum: (number) => luhn(number.slice(0, 10)) },
+    SI: { format: /^\d{8}$/ },
+    SK: { format: /^\d{10}$/ },
+    XI: { format: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/ },
+}
+
+/**
+ * Country codes with a known EU VAT format (`EL` is Greece, `XI` is Northern Ireland)
+ */
+export const EU_VAT_COUNTRIES = Object.keys(EU_VAT_RULES)
+
+/**
+ * Validate an EU VAT number (country prefix + number)
+ * Checks the per-country format and, where known, the checksum
+ *
+ * @example
+ * ```typescript
+ * validateEuVatNumber('DE136695976') // { valid: true, kind: 'EU-VAT', country: 'DE', ... }
+ * ```
+ */
+export function validateEuVatNumber(value: string): TaxIdValidationResult {
+    const normalized = cleanTaxId(value)
+    const prefix = normalized.slice(0, 2)
+    const country = prefix === 'GR' ? 'EL' : prefix
+    const number = normalized.slice(2)
+    const rule = EU_VAT_RULES[country]
+
+    if (!rule) {
+        return invalid(normalized, `Unsupported or missing EU VAT country prefix "${prefix}"`)
+    }
+
+    if (!rule.format.test(number)) {
+        return invalid(normalized, `Invalid VAT number format for ${country}`, 'EU-VAT', country)
+    }
+
+    if (rule.checksum && !rule.checksum(number)) {
+        return invalid(normalized, `Invalid VAT number checksum for ${country}`, 'EU-VAT', country)
+    }
+
+    return { valid: true, kind: 'EU-VAT', country, normalized }
+}
+
+/**
+ * Validate any tax ID accepted by the API: Spanish NIF/NIE/CIF (with or without
+ * the `ES` prefix) or an EU VAT number
+ *
+ * @example
+ * ```typescript
+ * const result = validateTaxId(invoice.customerTaxId)
+ * if (!result.valid) console.error(result.reason)
+ * ```
+ */
+export function validateTaxId(value: string): TaxIdValidationResult {
+    const normalized = normalizeTaxId(value)
+
+    if (normalized.length === 9 && /^[A-Z0-9]\d{7}[A-Z0-9]$/.test(normalized)) {
+        return validateSpanishTaxId(normalized)
+    }
+
+    if (/^[A-Z]{2}/.test(normalized)) {
+        return validateEuVatNumber(normalized)
+    }
+
+    return invalid(normalized, 'Not a valid Spanish tax ID or EU VAT number format')
+}
+
+/**
+ * Check whether a value is a valid Spanish tax ID or EU VAT number
+ */
+export function isValidTaxId(value: string): boolean {
+    return validateTaxId(value).valid
+}
@@ -0,0 +1,160 @@
+import { randomUUID } from 'node:crypto'
+import { link, mkdir, open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { sleep } from '../retry'
+import type { StoredSession, TokenStore } from '../types/token-store.types'
+
+/**
+ * Options for `FileTokenStore`
+ */
+export interface FileTokenStoreOptions {
+    /**
+     * How long to wait for the lock before failing, in milliseconds
+     * Must be longer than `staleLockMs`, so a crashed writer's lock can be cleared in time
+     * @default 10000
+     */
+    lockTimeoutMs?: number
+
+    /**
+     * Age after which a lock file left by a crashed process is removed, in milliseconds
+     * @default 5000
+     */
+    staleLockMs?: number
+}
+
+/**
+ * Filesystem token store backed by a single JSON file
+ *
+ * Writes take an exclusive lock file (`<path>.lock`), so several processes can share
+ * the file safely, and replace the file atomically (write + rename). The file holds
+ * access tokens and is created with `0600` permissions.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new InvoSDK({
+ *   apiToken: process.env.INVO_API_TOKEN!,
+ *   tokenStore: new FileTokenStore('/tmp/invo-tokens.json'),
+ * })
+ * ```
+ */
+export class FileTokenStore implements TokenStore {
+    private readonly path: string
+    private readonly lockPath: string
+    private readonly lockTimeoutMs: number
+    private readonly staleLockMs: number
+
+    constructor(path: string, options: FileTokenStoreOptions = {}) {
+        this.path = path
+        this.lockPath = `${path}.lock`
+        this.lockTimeoutMs = options.lockTimeoutMs ?? 10000
+        this.staleLockMs = options.staleLockMs ?? 5000
+
+        if (this.staleLockMs >= this.lockTimeoutMs) {
+            throw new Error('FileTokenStore: staleLockMs must be shorter than lockTimeoutMs.')
+        }
+    }
+
+    async get(key: string): Promise<StoredSession | null> {
+        // Writes replace the file atomically, so reads need no lock
+        const sessions = await this.read()
+        return sessions[key] ?? null
+    }
+
+    async set(key: string, session: StoredSession): Promise<void> {
+        await this.withLock(async () => {
+            const sessions = await this.read()
+            sessions[key] = session
+            await this.write(sessions)
+        })
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.withLock(async () => {
+            const sessions = await this.read()
+            if (!(key in sessions)) return
+            delete sessions[key]
+            await this.write(sessions)
+        })
+    }
+
+    private async read(): Promise<Record<string, StoredSession>> {
+        try {
+            return JSON.parse(await readFile(this.path, 'utf8'))
+        } catch (error) {
+            // Missing or unreadable file: start over, sessions can always be recreated
+            if (
+                (error as NodeJS.ErrnoException).code === 'ENOENT' ||
+                error instanceof SyntaxError
+            ) {
+                return {}
+            }
+            throw error
+        }
+    }
+
+    private async write(sessions: Record<string, StoredSession>): Promise<void> {
+        const tmpPath = `${this.path}.${process.pid}.tmp`
+        await writeFile(tmpPath, JSON.stringify(sessions), { mode: 0o600 })
+        await rename(tmpPath, this.path)
+    }
+
+    private async withLock<T>(operation: () => Promise<T>): Promise<T> {
+        await mkdir(dirname(this.path), { recursive: true })
+        const deadline = Date.now() + this.lockTimeoutMs
+        let lockIno: number
+
+        while (true) {
+            try {
+                const handle = await open(this.lockPath, 'wx')
+                lockIno = (await handle.stat()).ino
+                await handle.close()
+                break
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+            }
+
+            const lockStat = await stat(this.lockPath).catch(() => null)
+            if (lockStat && Date.now() - lockStat.mtimeMs > this.staleLockMs) {
+                await this.removeStaleLock(lockStat.ino, lockStat.mtimeMs)
+                continue
+            }
+
+            if (Date.now() >= deadline) {
+                throw new Error(`Timed out waiting for token store lock: ${this.lockPath}`)
+            }
+            await sleep(25 + Math.random() * 25)
+        }
+
+        try {
+            return await operation()
+        } finally {
+            // Only remove the lock if it is still ours
+            const current = await stat(this.lockPath).catch(() => null)
+            if (current?.ino === lockIno) {
+                await unlink(this.lockPath).catch(() => {})
+            }
+        }
+    }
+
+    /**
+     * Remove a lock left behind by a crashed process
+     * The lock is moved aside atomically first; if another process replaced it with a
+     * fresh lock in the meantime, that lock is put back untouched
+     */
+    private async removeStaleLock(ino: number, mtimeMs: number): Promise<void> {
+        const asidePath = `${this.lockPath}.${randomUUID()}.stale`
+        try {
+            await rename(this.lockPath, asidePath)
+        } catch {
+            // Already taken over by another process
+            return
+        }
+
+        const aside = await stat(asidePath).catch(() => null)
+        if (aside && (aside.ino !== ino || aside.mtimeMs !== mtimeMs)) {
+            // Not the stale lock we saw: restore it unless a new lock exists already
+            await link(asidePath, this.lockPath).catch(() => {})
+        }
+        await unlink(asidePath).catch(() => {})
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Token stores
+ * Share sessions across SDK instances and processes
+ */
+
+export { MemoryTokenStore } from './memory-store'
+export { FileTokenStore } from './file-store'
+export type { FileTokenStoreOptions } from './file-store'
+export { getTokenStoreKey } from './key'
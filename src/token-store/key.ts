@@ -0,0 +1,24 @@
+import { createHash, createHmac } from 'node:crypto'
+
+/**
+ * Token store key for a session
+ * The identity (API token, or password / OAuth credentials) is hashed so it never appears in the
+ * store. With a `secret`, an HMAC is used instead, so low-entropy identities such as passwords
+ * cannot be brute-forced from the key
+ *
+ * @example
+ * ```typescript
+ * getTokenStoreKey('invo_tok_prod_...', 'production') // 'invo:production:3f2a...'
+ * ```
+ */
+export function getTokenStoreKey(
+    identity: string,
+    environment: 'production' | 'sandbox',
+    workspaceId?: string | null,
+    secret?: string,
+): string {
+    const hash = (secret ? createHmac('sha256', secret) : createHash('sha256'))
+        .update(identity)
+        .digest('hex')
+    return `invo:${environment}:${hash}${workspaceId ? `:${workspaceId}` : ''}`
+}
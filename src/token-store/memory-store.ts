@@ -0,0 +1,23 @@
+import type { StoredSession, TokenStore } from '../types/token-store.types'
+
+/**
+ * In-memory token store
+ * Share one instance between SDK instances of the same process (e.g. across warm
+ * serverless invocations) to reuse sessions
+ */
+export class MemoryTokenStore implements TokenStore {
+    private readonly sessions = new Map<string, StoredSession>()
+
+    async get(key: string): Promise<StoredSession | null> {
+        const session = this.sessions.get(key)
+        return session ? structuredClone(session) : null
+    }
+
+    async set(key: string, session: StoredSession): Promise<void> {
+        this.sessions.set(key, structuredClone(session))
+    }
+
+    async delete(key: string): Promise<void> {
+        this.sessions.delete(key)
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Batch resource types
+ */
+
+import type { UpdateBatchStatusDto } from './api.types'
+import type { PaginationQuery } from './common.types'
+
+/**
+ * Batch status
+ */
+export type BatchStatus = UpdateBatchStatusDto['status']
+
+/**
+ * Filters for `GET /invoice/batches`
+ */
+export interface BatchListQuery extends PaginationQuery {
+    /** Filter by status */
+    status?: Exclude<BatchStatus, 'PROCESSING'>
+}
+
+/**
+ * Submission batch as returned by the API
+ */
+export interface Batch {
+    id: string
+    status: BatchStatus
+    /** Number of invoices in the batch */
+    invoiceCount?: number
+    /** AEAT submission result, once sent */
+    result?: Record<string, unknown> | null
+    sentAt?: string | null
+    createdAt: string
+    updatedAt: string
+}
@@ -0,0 +1,111 @@
+/**
+ * Bulk store types
+ */
+
+import type { CreateInvoiceDto } from './api.types'
+import type { StoreOptions } from './sdk.types'
+
+/**
+ * Options for `InvoSDK.storeMany`
+ */
+export interface StoreManyOptions extends Omit<StoreOptions, 'idempotencyKey'> {
+    /**
+     * Maximum number of `store()` calls in flight
+     * @default 5
+     */
+    concurrency?: number
+
+    /**
+     * Stop starting new invoices after the first failure
+     * Invoices already in flight still finish; the rest are reported as skipped
+     * @default false
+     */
+    stopOnError?: boolean
+
+    /**
+     * Submit invoices of the same series one at a time, in input order
+     * After a failure, the remaining invoices of that series are skipped so the chain
+     * is never submitted out of order
+     * @default true
+     */
+    preserveOrderPerSeries?: boolean
+
+    /**
+     * Series of an invoice
+     * @default invoice number without its trailing digits
+     */
+    seriesOf?: (invoice: CreateInvoiceDto) => string
+
+    /**
+     * Webhook URL passed to every `store()` call
+     */
+    callback?: string
+
+    /**
+     * Called after each invoice settles
+     * Errors thrown by the callback are ignored
+     */
+    onProgress?: (progress: StoreManyProgress, result: StoreManyItemResult) => void
+}
+
+/**
+ * Invoice registered by the API
+ */
+export interface StoreManySuccess {
+    status: 'success'
+    /** Position in the input array */
+    index: number
+    externalId: string
+    invoiceId: string
+    chainIndex: number
+    /** True when the invoice already existed */
+    duplicate?: boolean
+}
+
+/**
+ * Invoice rejected by `store()`
+ */
+export interface StoreManyFailure {
+    status: 'error'
+    index: number
+    externalId: string
+    /** Error thrown by `store()` (`InvoApiError`, `InvoiceValidationError`, `NetworkError`...) */
+    error: Error
+}
+
+/**
+ * Invoice that was never sent
+ * - stopped: `stopOnError` was set and another invoice failed
+ * - series_failed: an earlier invoice of the same series failed
+ * - aborted: the signal was aborted
+ */
+export interface StoreManySkipped {
+    status: 'skipped'
+    index: number
+    externalId: string
+    reason: 'stopped' | 'series_failed' | 'aborted'
+}
+
+/**
+ * Result of a single invoice in `storeMany`
+ */
+export type StoreManyItemResult = StoreManySuccess | StoreManyFailure | StoreManySkipped
+
+/**
+ * Progress counters reported by `storeMany`
+ */
+export interface StoreManyProgress {
+    total: number
+    completed: number
+    succeeded: number
+    failed: number
+    skipped: number
+}
+
+/**
+ * Result of `storeMany`
+ */
+export interface StoreManyResult extends StoreManyProgress {
+    /** One result per invoice, in input order */
+    results: StoreManyItemResult[]
+}
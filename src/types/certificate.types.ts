@@ -0,0 +1,26 @@
+/**
+ * Certificate resource types
+ */
+
+/**
+ * Certificate file accepted by `certificates.upload()` (PKCS#12, .p12 / .pfx)
+ * Node.js Buffers are accepted as `Uint8Array`
+ */
+export type CertificateFile = File | Blob | ArrayBuffer | Uint8Array
+
+/**
+ * Digital certificate of the workspace, as returned by the API
+ */
+export interface CertificateInfo {
+    /** Certificate subject (holder) */
+    subject: string
+    /** Issuing certification authority */
+    issuer: string
+    /** NIF/CIF of the holder */
+    nif: string
+    serialNumber?: string
+    /** Start of validity (ISO 8601) */
+    validFrom: string
+    /** End of validity (ISO 8601) */
+    validTo: string
+}
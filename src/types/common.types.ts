@@ -0,0 +1,31 @@
+/**
+ * Shared types used across SDK resources
+ */
+
+/**
+ * Pagination parameters accepted by list endpoints
+ */
+export interface PaginationQuery {
+    /**
+     * Page number (1-based)
+     * @default 1
+     */
+    page?: number
+
+    /**
+     * Items per page (max 100)
+     * @default 50
+     */
+    limit?: number
+}
+
+/**
+ * Paginated list response returned by list endpoints
+ */
+export interface PaginatedResponse<T> {
+    data: T[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
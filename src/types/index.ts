@@ -13,6 +13,11 @@ export interface CreateInvoiceResult {
     success: boolean
     invoiceId: string
     chainIndex: number
+    /**
+     * True when the invoice already existed and was resolved by `externalId`
+     * instead of being created again
+     */
+    duplicate?: boolean
 }
 
 /**
@@ -49,19 +54,110 @@ export interface ApiTokenListItem {
     is_active: boolean
 }
 // SDK types
-export type { InvoSDKConfig } from './sdk.types'
+export type {
+    InvoSDKConfig,
+    HttpMethod,
+    ApiRequester,
+    RetryConfig,
+    RequestOptions,
+    StoreOptions,
+    StoreAndWaitOptions,
+    StoreAndWaitResult,
+    InvoCredentials,
+    ApiTokenCredentials,
+    PasswordCredentials,
+    OAuthCredentials,
+    OAuthProvider,
+} from './sdk.types'
+
+// Shared types
+export type { PaginationQuery, PaginatedResponse } from './common.types'
+
+// Invoice types
+export type {
+    InvoiceStatus,
+    InvoiceType,
+    InvoiceListQuery,
+    Invoice,
+    SubmitInvoiceResult,
+} from './invoice.types'
+
+// Batch types
+export type { BatchStatus, BatchListQuery, Batch } from './batch.types'
+
+// Processing error types
+export type {
+    ProcessingErrorListQuery,
+    ProcessingErrorInvoice,
+    ProcessingError,
+    ProcessingErrorGroup,
+} from './processing-error.types'
+
+// Workspace types
+export type { WorkspaceRole, Workspace, WorkspaceMember } from './workspace.types'
+
+// Certificate types
+export type { CertificateFile, CertificateInfo } from './certificate.types'
+
+// Token store types
+export type { StoredSession, TokenStore } from './token-store.types'
+
+// Webhook types
+export type {
+    InvoiceWebhookEventType,
+    BatchWebhookEventType,
+    WebhookEventType,
+    InvoiceWebhookError,
+    InvoiceWebhookData,
+    InvoiceStatusWebhookPayload,
+    BatchWebhookData,
+    WebhookEventBase,
+    InvoiceWebhookEvent,
+    BatchWebhookEvent,
+    WebhookEvent,
+    WebhookHeaders,
+} from './webhook.types'
+
+// Outbox types
+export type {
+    OutboxEntryStatus,
+    OutboxEntry,
+    OutboxStore,
+    OutboxStatus,
+    OutboxDrainResult,
+} from './outbox.types'
+
+// Bulk store types
+export type {
+    StoreManyOptions,
+    StoreManySuccess,
+    StoreManyFailure,
+    StoreManySkipped,
+    StoreManyItemResult,
+    StoreManyProgress,
+    StoreManyResult,
+} from './bulk.types'
 
 // Auto-generated API types
 export type {
     UserDto,
     LoginDto,
     LoginResponseDto,
+    WorkspaceDto,
+    SwitchWorkspaceDto,
+    CreateWorkspaceDto,
+    UpdateWorkspaceDto,
+    AddMemberDto,
+    UpdateMemberRoleDto,
+    UploadCertificateDto,
     OAuthCallbackDto,
     InvoiceTaxLineDto,
     CreateInvoiceDto,
+    UpdateInvoiceDto,
     UpdateBatchStatusDto,
     MakeupPDFDto,
     MakeupPDFBrandDto,
     MakeupPDFClientDto,
     MakeupPDFBusinessDto,
+    MakeupPDFConceptDto,
 } from './api.types'
@@ -0,0 +1,74 @@
+/**
+ * Invoice resource types
+ */
+
+import type { InvoiceTaxLineDto } from './api.types'
+import type { PaginationQuery } from './common.types'
+
+/**
+ * Invoice processing status
+ */
+export type InvoiceStatus =
+    | 'PENDING'
+    | 'SENT'
+    | 'ACCEPTED'
+    | 'ACCEPTED_WITH_WARNINGS'
+    | 'REJECTED'
+    | 'FAILED'
+
+/**
+ * Invoice type according to VeriFactu
+ */
+export type InvoiceType = 'F1' | 'F2' | 'F3' | 'R1' | 'R2' | 'R3' | 'R4'
+
+/**
+ * Filters for `GET /invoice`
+ */
+export interface InvoiceListQuery extends PaginationQuery {
+    /** Issue date from (ISO 8601) */
+    from?: string
+    /** Issue date to (ISO 8601) */
+    to?: string
+    /** Filter by status */
+    status?: InvoiceStatus
+    /** Filter by customer NIF/CIF */
+    customerTaxId?: string
+    /** Search by invoice number, description or customer name */
+    search?: string
+}
+
+/**
+ * Invoice record as returned by the API
+ */
+export interface Invoice {
+    id: string
+    invoiceNumber: string
+    externalId: string
+    issueDate: string
+    totalAmount: number
+    currency: string
+    customerName: string
+    customerTaxId: string
+    emitterName: string
+    emitterTaxId: string
+    type: InvoiceType
+    description?: string
+    rectifiedInvoiceIds?: string[]
+    taxLines: InvoiceTaxLineDto[]
+    status: InvoiceStatus
+    chainIndex: number
+    hash?: string
+    batchId?: string | null
+    callback?: string | null
+    createdAt: string
+    updatedAt: string
+}
+
+/**
+ * Result of forcing the submission of an invoice to AEAT
+ */
+export interface SubmitInvoiceResult {
+    success: boolean
+    invoiceId: string
+    status: InvoiceStatus
+}
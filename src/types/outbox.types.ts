@@ -0,0 +1,79 @@
+/**
+ * Invoice outbox types
+ */
+
+import type { CreateInvoiceDto } from './api.types'
+
+/**
+ * Outbox entry status
+ * - pending: waiting to be sent (or retried)
+ * - sent: registered by the API
+ * - dead: gave up after a permanent error or too many attempts
+ */
+export type OutboxEntryStatus = 'pending' | 'sent' | 'dead'
+
+/**
+ * Invoice persisted in the outbox
+ */
+export interface OutboxEntry {
+    /** Entry ID (the invoice `externalId`) */
+    id: string
+    invoice: CreateInvoiceDto
+    /** Webhook URL passed to `store()` */
+    callback?: string
+    status: OutboxEntryStatus
+    /** Monotonic insertion sequence, used to keep the enqueue order across restarts */
+    sequence: number
+    attempts: number
+    enqueuedAt: string
+    lastAttemptAt?: string
+    /** Earliest date for the next attempt after a transient failure */
+    nextAttemptAt?: string
+    lastError?: string
+    /** Returned by the API once sent */
+    invoiceId?: string
+    chainIndex?: number
+    sentAt?: string
+}
+
+/**
+ * Persistence adapter for the outbox
+ */
+export interface OutboxStore {
+    /**
+     * Load every entry
+     */
+    load(): Promise<OutboxEntry[]>
+
+    /**
+     * Insert or replace an entry
+     */
+    save(entry: OutboxEntry): Promise<void>
+
+    /**
+     * Remove an entry
+     */
+    remove(id: string): Promise<void>
+}
+
+/**
+ * Outbox counters
+ */
+export interface OutboxStatus {
+    pending: number
+    /** Pending entries that already failed at least once */
+    failing: number
+    sent: number
+    dead: number
+}
+
+/**
+ * Result of a drain run
+ */
+export interface OutboxDrainResult {
+    sent: OutboxEntry[]
+    failed: OutboxEntry[]
+    dead: OutboxEntry[]
+    /** Entries not attempted (backoff pending or blocked behind a failed or dead entry of the same series) */
+    skipped: OutboxEntry[]
+}
@@ -0,0 +1,48 @@
+/**
+ * Processing error resource types
+ */
+
+import type { PaginationQuery } from './common.types'
+import type { Invoice } from './invoice.types'
+
+/**
+ * Filters for `GET /invoice/errors`
+ */
+export interface ProcessingErrorListQuery extends PaginationQuery {
+    /** Filter by resolved / unresolved errors */
+    resolved?: boolean
+}
+
+/**
+ * Invoice fields embedded in a processing error
+ */
+export type ProcessingErrorInvoice = Pick<Invoice, 'id' | 'invoiceNumber' | 'externalId' | 'status'>
+
+/**
+ * Error raised while processing an invoice (AEAT rejection, submission failure...)
+ */
+export interface ProcessingError {
+    id: string
+    /** Offending invoice, null when the error is not tied to a single invoice */
+    invoiceId: string | null
+    invoice?: ProcessingErrorInvoice | null
+    batchId?: string | null
+    /** Error code (e.g. the AEAT error code) */
+    code: string
+    message: string
+    details?: Record<string, unknown> | null
+    resolved: boolean
+    resolvedAt?: string | null
+    createdAt: string
+}
+
+/**
+ * Unresolved errors of a single invoice, as returned by `errors.unresolvedByInvoice()`
+ */
+export interface ProcessingErrorGroup {
+    /** Invoice ID, null for errors not tied to an invoice */
+    invoiceId: string | null
+    invoice: ProcessingErrorInvoice | null
+    /** Errors of this invoice, oldest first */
+    errors: ProcessingError[]
+}
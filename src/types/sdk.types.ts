@@ -2,19 +2,32 @@
  * SDK Configuration types
  */
 
+import type { WaitForStatusOptions } from '../resources/invoices'
+import type { CreateInvoiceResult } from './index'
+import type { Invoice } from './invoice.types'
+import type { TokenStore } from './token-store.types'
+
 /**
  * Invoice SDK Configuration
  */
 export interface InvoSDKConfig {
     /**
-     * API token for authentication (required)
+     * API token for authentication
      * The SDK will automatically login when initialized
      * The workspace is determined by the API token configuration
      * Environment is auto-detected from the token prefix:
      * - invo_tok_prod_* → production
      * - invo_tok_sand_* → sandbox
+     *
+     * Shorthand for `credentials: { type: 'apiToken', apiToken }`
      */
-    apiToken: string
+    apiToken?: string
+
+    /**
+     * Credentials to log in with: an API token, email and password, or an OAuth token pair
+     * Leave both this and `apiToken` out to log in later with `login()`
+     */
+    credentials?: InvoCredentials
 
     /**
      * Environment to use
@@ -28,11 +41,222 @@ export interface InvoSDKConfig {
      */
     onError?: (error: Error) => void
 
+    /**
+     * Callback fired on non-fatal warnings, such as a workspace member change
+     * the caller's role is not allowed to make
+     * @default console.warn
+     */
+    onWarning?: (message: string) => void
+
     /**
      * Enable debug logging to console
      * When enabled, logs all API requests and detailed error information
      * @default false
      */
     debug?: boolean
+
+    /**
+     * Retry policy for transient failures (5xx gateway errors, 429, network errors)
+     * Set to `false` to disable retries
+     * @default { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 30000, jitter: 'full' }
+     */
+    retry?: RetryConfig | false
+
+    /**
+     * Default timeout for every request in milliseconds, including retries
+     * Can be overridden per call with `RequestOptions.timeoutMs`
+     * @default undefined (no timeout)
+     */
+    timeoutMs?: number
+
+    /**
+     * Workspace to act on instead of the default one of the token
+     * The SDK switches to it after every login
+     * @default undefined (workspace of the token)
+     */
+    workspaceId?: string
+
+    /**
+     * Refresh the access token this many seconds before it expires
+     * The refresh token is used first; the API token login is the fallback
+     * @default 60
+     */
+    refreshBufferSeconds?: number
+
+    /**
+     * Where sessions are cached, so new instances (e.g. serverless cold starts) reuse
+     * a valid token instead of logging in again
+     * @default undefined (in memory, per instance)
+     */
+    tokenStore?: TokenStore
+
+    /**
+     * Secret the token store keys are derived from (HMAC-SHA256)
+     * Required to store sessions of password and OAuth logins, whose credentials are too
+     * guessable for a plain hash. Keep it out of the store
+     * @default undefined (only API token sessions are stored)
+     */
+    tokenStoreSecret?: string
 }
 
+/**
+ * Log in with an API token (`POST /auth/token`)
+ */
+export interface ApiTokenCredentials {
+    type: 'apiToken'
+    apiToken: string
+}
+
+/**
+ * Log in with a user's email and password (`POST /auth/login`)
+ */
+export interface PasswordCredentials {
+    type: 'password'
+    email: string
+    password: string
+}
+
+/**
+ * Log in with the tokens received by the OAuth redirect (`POST /auth/oauth/callback`)
+ */
+export interface OAuthCredentials {
+    type: 'oauth'
+    accessToken: string
+    refreshToken: string
+    /** Access token lifetime in seconds, if the provider returned it */
+    expiresIn?: number
+}
+
+/**
+ * Credentials the SDK logs in with
+ * Every kind feeds the same session: refresh, token store and 401 replay work alike
+ */
+export type InvoCredentials = ApiTokenCredentials | PasswordCredentials | OAuthCredentials
+
+/**
+ * OAuth providers supported by `/auth/oauth/{provider}`
+ */
+export type OAuthProvider = 'google' | 'github'
+
+/**
+ * HTTP methods supported by the SDK
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/**
+ * Per-call request options
+ */
+export interface RequestOptions {
+    /**
+     * Signal to cancel the request
+     * An aborted request rejects with `AbortError`
+     */
+    signal?: AbortSignal
+
+    /**
+     * Timeout for this call in milliseconds, including retries
+     * Overrides `InvoSDKConfig.timeoutMs`. A timed out request rejects with `TimeoutError`
+     */
+    timeoutMs?: number
+}
+
+/**
+ * Options for `InvoSDK.store`
+ */
+export interface StoreOptions extends RequestOptions {
+    /**
+     * Validate the invoice locally before sending it
+     * Invalid invoices reject with `InvoiceValidationError` without calling the API
+     * @default false
+     */
+    validate?: boolean
+
+    /**
+     * Idempotency key sent as the `Idempotency-Key` header on every attempt
+     * Defaults to a key derived from `externalId`, which also allows the request to be retried.
+     * Set to `false` to send no key (the request is then never retried)
+     */
+    idempotencyKey?: string | false
+}
+
+/**
+ * Options for `InvoSDK.storeAndWait`
+ */
+export interface StoreAndWaitOptions extends StoreOptions {
+    /**
+     * Polling options once the invoice is stored
+     * The `store()` signal is used when `wait.signal` is not set
+     */
+    wait?: WaitForStatusOptions
+}
+
+/**
+ * Result of `InvoSDK.storeAndWait`
+ */
+export interface StoreAndWaitResult extends CreateInvoiceResult {
+    /** Invoice in its final status */
+    invoice: Invoice
+}
+
+/**
+ * Authenticated request function shared by SDK resources
+ */
+export type ApiRequester = <T>(
+    endpoint: string,
+    method?: HttpMethod,
+    body?: unknown,
+    options?: RequestOptions,
+) => Promise<T>
+
+/**
+ * Retry policy for failed API requests
+ */
+export interface RetryConfig {
+    /**
+     * Maximum number of attempts, including the first one
+     * @default 3
+     */
+    maxAttempts?: number
+
+    /**
+     * Base delay for exponential backoff in milliseconds
+     * @default 500
+     */
+    baseDelayMs?: number
+
+    /**
+     * Maximum delay between attempts in milliseconds
+     * A longer `Retry-After` is not shortened: the request is not retried and the error
+     * (e.g. `RateLimitError` with `retryAfterMs`) is thrown instead
+     * @default 30000
+     */
+    maxDelayMs?: number
+
+    /**
+     * Jitter strategy applied to the backoff delay
+     * - full: random delay between 0 and the computed backoff
+     * - equal: half of the computed backoff plus a random half
+     * - none: no jitter
+     * @default 'full'
+     */
+    jitter?: 'full' | 'equal' | 'none'
+
+    /**
+     * HTTP status codes that can be retried
+     * @default [429, 502, 503, 504]
+     */
+    retryOnStatus?: number[]
+
+    /**
+     * HTTP methods that can be retried
+     * Other methods (e.g. POST) are only retried when the request carries an idempotency key
+     * @default ['GET', 'PUT', 'DELETE']
+     */
+    retryOnMethods?: HttpMethod[]
+
+    /**
+     * Retry on network failures (connection reset, DNS errors, etc.)
+     * @default true
+     */
+    retryOnNetworkError?: boolean
+}
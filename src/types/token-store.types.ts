@@ -0,0 +1,40 @@
+/**
+ * Token store types
+ */
+
+import type { UserDto, WorkspaceDto } from './api.types'
+
+/**
+ * Session persisted in a token store
+ */
+export interface StoredSession {
+    accessToken: string
+    refreshToken?: string | null
+    /** Access token expiry (epoch milliseconds), from `expires_in` */
+    expiresAt?: number | null
+    user?: UserDto | null
+    workspaces?: WorkspaceDto[]
+    currentWorkspaceId?: string | null
+}
+
+/**
+ * Persistence adapter for sessions, shared across SDK instances and processes
+ * Keys are derived from a hash of the API token, the environment and the workspace,
+ * so tenants never collide. Implement it on top of Redis, a database, etc.
+ */
+export interface TokenStore {
+    /**
+     * Get a stored session, or null if there is none
+     */
+    get(key: string): Promise<StoredSession | null>
+
+    /**
+     * Insert or replace a session
+     */
+    set(key: string, session: StoredSession): Promise<void>
+
+    /**
+     * Remove a session
+     */
+    delete(key: string): Promise<void>
+}
@@ -0,0 +1,112 @@
+/**
+ * Webhook event types
+ */
+
+import type { BatchStatus } from './batch.types'
+import type { InvoiceStatus } from './invoice.types'
+
+/**
+ * Invoice webhook event types, one per invoice status
+ */
+export type InvoiceWebhookEventType =
+    | 'invoice.pending'
+    | 'invoice.sent'
+    | 'invoice.accepted'
+    | 'invoice.accepted_with_warnings'
+    | 'invoice.rejected'
+    | 'invoice.failed'
+
+/**
+ * Batch webhook event types
+ */
+export type BatchWebhookEventType = 'batch.status_changed'
+
+/**
+ * Any webhook event type
+ */
+export type WebhookEventType = InvoiceWebhookEventType | BatchWebhookEventType
+
+/**
+ * Error reported by AEAT for an invoice
+ */
+export interface InvoiceWebhookError {
+    code: string
+    message: string
+}
+
+/**
+ * Body INVO posts to the `callback` URL passed to `store()`
+ * `constructEvent` turns it into an `InvoiceWebhookEvent`
+ */
+export interface InvoiceStatusWebhookPayload {
+    /** Delivery ID, when INVO sends one */
+    id?: string
+    invoiceId: string
+    status: InvoiceStatus
+    /** Extra details of the status change */
+    data?: Record<string, unknown>
+}
+
+/**
+ * Payload of invoice status events
+ * Only `invoiceId` and `status` are always present; the other fields are read from the
+ * `data` of the delivery when INVO sends them
+ */
+export interface InvoiceWebhookData {
+    invoiceId: string
+    status: InvoiceStatus
+    externalId?: string
+    invoiceNumber?: string
+    previousStatus?: InvoiceStatus | null
+    chainIndex?: number
+    /** AEAT errors or warnings (REJECTED, ACCEPTED_WITH_WARNINGS, FAILED) */
+    errors?: InvoiceWebhookError[]
+    /** `data` of the delivery, as received */
+    details?: Record<string, unknown>
+}
+
+/**
+ * Payload of batch status events
+ */
+export interface BatchWebhookData {
+    batchId: string
+    status: BatchStatus
+    previousStatus: BatchStatus | null
+    invoiceCount?: number
+}
+
+/**
+ * Common webhook event envelope
+ */
+export interface WebhookEventBase<T extends WebhookEventType, D> {
+    /**
+     * Unique event ID, stable across redeliveries
+     * For invoice status deliveries, the body `id` or else `<invoiceId>:<status>:<signed timestamp>`
+     */
+    id: string
+    type: T
+    /** Event creation date (ISO 8601) */
+    createdAt: string
+    data: D
+}
+
+/**
+ * Invoice status webhook event
+ */
+export type InvoiceWebhookEvent<T extends InvoiceWebhookEventType = InvoiceWebhookEventType> =
+    WebhookEventBase<T, InvoiceWebhookData>
+
+/**
+ * Batch status webhook event
+ */
+export type BatchWebhookEvent = WebhookEventBase<BatchWebhookEventType, BatchWebhookData>
+
+/**
+ * Any webhook event
+ */
+export type WebhookEvent = InvoiceWebhookEvent | BatchWebhookEvent
+
+/**
+ * Incoming request headers, as a plain object (node:http, Express, Fastify) or `Headers`
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>
@@ -0,0 +1,39 @@
+/**
+ * Workspace resource types
+ */
+
+import type { WorkspaceDto } from './api.types'
+
+/**
+ * Role of a user inside a workspace
+ */
+export type WorkspaceRole = WorkspaceDto['role']
+
+/**
+ * Workspace record as returned by the API
+ */
+export interface Workspace {
+    id: string
+    name: string
+    /** Company NIF/CIF */
+    tax_id: string
+    description?: string | null
+    logo_url?: string | null
+    is_active: boolean
+    settings?: Record<string, unknown> | null
+    created_at: string
+    updated_at: string
+}
+
+/**
+ * Workspace member as returned by the API
+ */
+export interface WorkspaceMember {
+    /** Member ID, used in `/workspace/{id}/members/{memberId}` */
+    id: string
+    user_id: string
+    workspace_id: string
+    role: WorkspaceRole
+    email?: string | null
+    created_at: string
+}
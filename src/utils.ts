@@ -58,3 +58,39 @@ export function isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
     return emailRegex.test(email)
 }
+
+/**
+ * Build a query string from a params object, skipping undefined and null values
+ */
+export function buildQueryString(query?: object): string {
+    if (!query) return ''
+
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+        if (value === undefined || value === null) continue
+        params.append(key, String(value))
+    }
+
+    const queryString = params.toString()
+    return queryString ? `?${queryString}` : ''
+}
+
+/**
+ * Round a monetary amount to 2 decimals (half away from zero)
+ */
+export function roundAmount(amount: number): number {
+    const cents = Math.round(Math.abs(amount) * 100 + Number.EPSILON * 100)
+    return (Math.sign(amount) * cents) / 100 || 0
+}
+
+/**
+ * Get the series of an invoice number (the number without its trailing sequence)
+ *
+ * @example
+ * ```typescript
+ * getInvoiceSeries('FAC-2024-0001') // 'FAC-2024-'
+ * ```
+ */
+export function getInvoiceSeries(invoiceNumber: string): string {
+    return invoiceNumber.replace(/\d+$/, '')
+}
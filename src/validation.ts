@@ -0,0 +1,182 @@
+import type { CreateInvoiceDto, InvoiceTaxLineDto } from './types/api.types'
+
+/**
+ * Invoice validation issue codes
+ */
+export type InvoiceValidationCode =
+    | 'INVALID_INVOICE_NUMBER'
+    | 'TOTAL_MISMATCH'
+    | 'MISSING_TAX_LINES'
+    | 'INVALID_TAX_TYPE'
+    | 'INVALID_TAX_RATE'
+    | 'INVALID_SURCHARGE_RATE'
+    | 'MISSING_RECTIFIED_INVOICES'
+    | 'INVALID_ISSUE_DATE'
+
+/**
+ * Single issue found while validating an invoice
+ */
+export interface InvoiceValidationIssue {
+    /** Field path (e.g. `taxLines.1.taxRate`) */
+    field: string
+    code: InvoiceValidationCode
+    message: string
+}
+
+/**
+ * Result of validating an invoice locally
+ */
+export interface InvoiceValidationResult {
+    valid: boolean
+    issues: InvoiceValidationIssue[]
+}
+
+/**
+ * Characters not allowed in `invoiceNumber`
+ */
+export const FORBIDDEN_INVOICE_NUMBER_CHARS = ['"', "'", '<', '>', '=']
+
+/**
+ * Allowed tax rates per tax type
+ * 01=IVA, 02=IPSI (Ceuta/Melilla), 03=IGIC (Canarias). 04 (others) is not restricted
+ */
+export const ALLOWED_TAX_RATES: Record<'01' | '02' | '03', number[]> = {
+    '01': [0, 4, 5, 10, 21],
+    '02': [0, 0.5, 1, 4, 10],
+    '03': [0, 3, 7, 9.5, 13.5, 20],
+}
+
+/**
+ * Allowed equivalence surcharge rates (recargo de equivalencia)
+ */
+export const ALLOWED_SURCHARGE_RATES = [0, 0.5, 0.62, 1.4, 1.75, 5.2]
+
+/**
+ * Invoice types that require `rectifiedInvoiceIds`
+ */
+const RECTIFYING_TYPES = ['R1', 'R2', 'R3', 'R4']
+
+const ISO_8601_REGEX = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Convert an amount to integer cents to compare without floating point errors
+ */
+function toCents(amount: number): number {
+    return Math.round(amount * 100)
+}
+
+/**
+ * Validate the tax and surcharge rates of a single tax line
+ */
+function validateTaxLine(line: InvoiceTaxLineDto, index: number): InvoiceValidationIssue[] {
+    const issues: InvoiceValidationIssue[] = []
+    const taxType = line.taxType ?? '01'
+
+    if (taxType !== '04') {
+        const allowed: number[] | undefined =
+            ALLOWED_TAX_RATES[taxType as keyof typeof ALLOWED_TAX_RATES]
+        if (!allowed) {
+            // Untyped callers can send anything; the rates cannot be checked then
+            issues.push({
+                field: `taxLines.${index}.taxType`,
+                code: 'INVALID_TAX_TYPE',
+                message: `Tax type ${taxType} is not valid. Allowed: 01, 02, 03, 04`,
+            })
+        } else if (!allowed.includes(line.taxRate)) {
+            issues.push({
+                field: `taxLines.${index}.taxRate`,
+                code: 'INVALID_TAX_RATE',
+                message: `Tax rate ${line.taxRate} is not allowed for tax type ${taxType}. Allowed: ${allowed.join(', ')}`,
+            })
+        }
+    }
+
+    if (line.surchargeRate !== undefined && !ALLOWED_SURCHARGE_RATES.includes(line.surchargeRate)) {
+        issues.push({
+            field: `taxLines.${index}.surchargeRate`,
+            code: 'INVALID_SURCHARGE_RATE',
+            message: `Surcharge rate ${line.surchargeRate} is not allowed. Allowed: ${ALLOWED_SURCHARGE_RATES.join(', ')}`,
+        })
+    }
+
+    return issues
+}
+
+/**
+ * Validate an invoice locally before sending it to `/invoice/store`
+ * Catches the most common causes of API or AEAT rejections without a round trip
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = validateInvoice(invoiceData)
+ * if (!valid) {
+ *   issues.forEach((issue) => console.error(`${issue.field}: ${issue.message}`))
+ * }
+ * ```
+ */
+export function validateInvoice(data: CreateInvoiceDto): InvoiceValidationResult {
+    const issues: InvoiceValidationIssue[] = []
+
+    const forbidden = FORBIDDEN_INVOICE_NUMBER_CHARS.filter((char) =>
+        data.invoiceNumber?.includes(char),
+    )
+    if (forbidden.length > 0) {
+        issues.push({
+            field: 'invoiceNumber',
+            code: 'INVALID_INVOICE_NUMBER',
+            message: `Invoice number contains forbidden characters: ${forbidden.join(' ')}`,
+        })
+    }
+
+    if (
+        !data.issueDate ||
+        !ISO_8601_REGEX.test(data.issueDate) ||
+        isNaN(Date.parse(data.issueDate))
+    ) {
+        issues.push({
+            field: 'issueDate',
+            code: 'INVALID_ISSUE_DATE',
+            message: `Issue date "${data.issueDate}" is not a valid ISO 8601 date`,
+        })
+    }
+
+    if (RECTIFYING_TYPES.includes(data.type ?? 'F1') && !data.rectifiedInvoiceIds?.length) {
+        issues.push({
+            field: 'rectifiedInvoiceIds',
+            code: 'MISSING_RECTIFIED_INVOICES',
+            message: `Invoice type ${data.type} requires at least one rectified invoice ID`,
+        })
+    }
+
+    const taxLines = data.taxLines ?? []
+    if (taxLines.length === 0) {
+        issues.push({
+            field: 'taxLines',
+            code: 'MISSING_TAX_LINES',
+            message: 'At least one tax line is required',
+        })
+    }
+
+    taxLines.forEach((line, index) => issues.push(...validateTaxLine(line, index)))
+
+    if (taxLines.length > 0) {
+        const expectedCents = taxLines.reduce(
+            (sum, line) =>
+                sum +
+                toCents(line.baseAmount) +
+                toCents(line.taxAmount) +
+                toCents(line.surchargeAmount ?? 0),
+            0,
+        )
+
+        if (toCents(data.totalAmount) !== expectedCents) {
+            issues.push({
+                field: 'totalAmount',
+                code: 'TOTAL_MISMATCH',
+                message: `Total amount ${data.totalAmount} does not match the sum of base, tax and surcharge amounts (${(expectedCents / 100).toFixed(2)})`,
+            })
+        }
+    }
+
+    return { valid: issues.length === 0, issues }
+}
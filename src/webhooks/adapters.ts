@@ -0,0 +1,230 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { WebhookHeaders } from '../types/webhook.types'
+import { createWebhookHandler, reportWebhookError, type WebhookHandlerOptions } from './handler'
+import type { WebhookRawBody } from './signature'
+
+/**
+ * Read the raw body of a node:http request
+ */
+function readRawBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = []
+        req.on('data', (chunk: Buffer | string) =>
+            chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk),
+        )
+        req.on('end', () => resolve(Buffer.concat(chunks)))
+        req.on('error', reject)
+    })
+}
+
+/**
+ * Resolve the raw body from a request that a framework may have already read
+ * Returns null when the body was parsed into an object and the raw bytes are lost
+ */
+async function resolveRawBody(
+    req: IncomingMessage & { body?: unknown; rawBody?: unknown },
+): Promise<WebhookRawBody | null> {
+    if (typeof req.rawBody === 'string' || req.rawBody instanceof Uint8Array) {
+        return req.rawBody
+    }
+    if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+        return req.body
+    }
+    if (req.body !== undefined || req.readableEnded) {
+        return null
+    }
+    return readRawBody(req)
+}
+
+const RAW_BODY_ERROR =
+    'Raw request body not available. Mount the webhook route before any JSON body parser ' +
+    "(e.g. express.raw({ type: 'application/json' }))"
+
+/**
+ * Create a `node:http` request listener for INVO webhooks
+ *
+ * @example
+ * ```typescript
+ * import http from 'node:http'
+ *
+ * const handler = createNodeWebhookHandler({
+ *   secret: process.env.INVO_WEBHOOK_SECRET!,
+ *   onInvoiceRejected: (event) => notifyOps(event.data),
+ * })
+ *
+ * http.createServer(handler).listen(3000)
+ * ```
+ */
+export function createNodeWebhookHandler(
+    options: WebhookHandlerOptions,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    const handle = createWebhookHandler(options)
+
+    return async (req, res) => {
+        const send = (status: number, body: unknown) => {
+            res.statusCode = status
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify(body))
+        }
+
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST')
+            send(405, { received: false, error: 'Method not allowed' })
+            return
+        }
+
+        try {
+            const rawBody = await resolveRawBody(req)
+            if (rawBody === null) {
+                send(400, { received: false, error: RAW_BODY_ERROR })
+                return
+            }
+
+            const result = await handle(rawBody, req.headers as WebhookHeaders)
+            send(result.status, result.body)
+        } catch (error) {
+            reportWebhookError(options, error instanceof Error ? error : new Error(String(error)))
+            send(500, { received: false, error: 'Webhook handler failed' })
+        }
+    }
+}
+
+/**
+ * Minimal Express request shape used by the adapter
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+    body?: unknown
+    rawBody?: unknown
+}
+
+/**
+ * Minimal Express response shape used by the adapter
+ */
+export interface ExpressLikeResponse {
+    status(code: number): ExpressLikeResponse
+    json(body: unknown): unknown
+}
+
+/**
+ * Create an Express route handler for INVO webhooks
+ * The route needs the raw body: use `express.raw({ type: 'application/json' })` on it
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/webhooks/invo',
+ *   express.raw({ type: 'application/json' }),
+ *   createExpressWebhookHandler({
+ *     secret: process.env.INVO_WEBHOOK_SECRET!,
+ *     store: new MemoryWebhookEventStore(),
+ *     onInvoiceAccepted: (event) => markAsAccepted(event.data.invoiceId),
+ *   }),
+ * )
+ * ```
+ */
+export function createExpressWebhookHandler(
+    options: WebhookHandlerOptions,
+): (req: ExpressLikeRequest, res: ExpressLikeResponse, next: (error?: unknown) => void) => void {
+    const handle = createWebhookHandler(options)
+
+    return (req, res, next) => {
+        resolveRawBody(req)
+            .then(async (rawBody) => {
+                if (rawBody === null) {
+                    res.status(400).json({ received: false, error: RAW_BODY_ERROR })
+                    return
+                }
+
+                const result = await handle(rawBody, req.headers as WebhookHeaders)
+                res.status(result.status).json(result.body)
+            })
+            .catch(next)
+    }
+}
+
+/**
+ * Minimal Fastify request shape used by the adapter
+ */
+export interface FastifyLikeRequest {
+    body: unknown
+    headers: Record<string, string | string[] | undefined>
+}
+
+/**
+ * Minimal Fastify reply shape used by the adapter
+ */
+export interface FastifyLikeReply {
+    code(statusCode: number): FastifyLikeReply
+    send(payload?: unknown): unknown
+}
+
+/**
+ * Minimal Fastify instance shape used by the plugin
+ */
+export interface FastifyLikeInstance {
+    addContentTypeParser(
+        contentType: string,
+        options: { parseAs: 'buffer' },
+        parser: (
+            request: unknown,
+            body: Buffer,
+            done: (error: Error | null, body?: unknown) => void,
+        ) => void,
+    ): void
+    post(
+        path: string,
+        handler: (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown>,
+    ): void
+}
+
+/**
+ * Create a Fastify route handler for INVO webhooks
+ * The request body must be the raw Buffer; `createFastifyWebhookPlugin` sets that up
+ */
+export function createFastifyWebhookHandler(
+    options: WebhookHandlerOptions,
+): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown> {
+    const handle = createWebhookHandler(options)
+
+    return async (request, reply) => {
+        const body = request.body
+        if (typeof body !== 'string' && !(body instanceof Uint8Array)) {
+            return reply.code(400).send({ received: false, error: RAW_BODY_ERROR })
+        }
+
+        const result = await handle(body, request.headers)
+        return reply.code(result.status).send(result.body)
+    }
+}
+
+/**
+ * Create a Fastify plugin that registers a webhook route
+ * JSON bodies are kept raw inside the plugin scope only
+ *
+ * @example
+ * ```typescript
+ * fastify.register(
+ *   createFastifyWebhookPlugin({
+ *     path: '/webhooks/invo',
+ *     secret: process.env.INVO_WEBHOOK_SECRET!,
+ *     onInvoiceRejected: (event) => notifyOps(event.data),
+ *   }),
+ * )
+ * ```
+ */
+export function createFastifyWebhookPlugin(
+    options: WebhookHandlerOptions & { path: string },
+): (fastify: FastifyLikeInstance, opts: unknown, done: (error?: Error) => void) => void {
+    const { path, ...handlerOptions } = options
+    const handler = createFastifyWebhookHandler(handlerOptions)
+
+    return (fastify, _opts, done) => {
+        fastify.addContentTypeParser(
+            'application/json',
+            { parseAs: 'buffer' },
+            (_req, body, next) => next(null, body),
+        )
+        fastify.post(path, handler)
+        done()
+    }
+}
@@ -0,0 +1,167 @@
+import { WebhookError } from '../errors'
+import type {
+    BatchWebhookEvent,
+    InvoiceWebhookEvent,
+    WebhookEvent,
+    WebhookHeaders,
+} from '../types/webhook.types'
+import { constructEvent, type WebhookRawBody } from './signature'
+import type { WebhookEventStore } from './store'
+
+type Callback<E> = (event: E) => Promise<void> | void
+
+/**
+ * Options for webhook handlers
+ */
+export interface WebhookHandlerOptions {
+    /** Webhook signing secret */
+    secret: string
+
+    /**
+     * Maximum age of the signed timestamp in seconds
+     * @default 300
+     */
+    toleranceSeconds?: number
+
+    /**
+     * Header carrying the signature
+     * @default 'x-invo-signature'
+     */
+    signatureHeader?: string
+
+    /**
+     * Store used to skip redelivered events
+     * Events are claimed before their callbacks run and released if they fail
+     */
+    store?: WebhookEventStore
+
+    onInvoicePending?: Callback<InvoiceWebhookEvent<'invoice.pending'>>
+    onInvoiceSent?: Callback<InvoiceWebhookEvent<'invoice.sent'>>
+    onInvoiceAccepted?: Callback<InvoiceWebhookEvent<'invoice.accepted'>>
+    onInvoiceAcceptedWithWarnings?: Callback<InvoiceWebhookEvent<'invoice.accepted_with_warnings'>>
+    onInvoiceRejected?: Callback<InvoiceWebhookEvent<'invoice.rejected'>>
+    onInvoiceFailed?: Callback<InvoiceWebhookEvent<'invoice.failed'>>
+    onBatchStatusChanged?: Callback<BatchWebhookEvent>
+
+    /** Called for every verified event, before the typed callback */
+    onEvent?: Callback<WebhookEvent>
+
+    /** Called when verification or a callback fails */
+    onError?: (error: Error, event?: WebhookEvent) => void
+}
+
+/**
+ * Response to send back to INVO
+ * 2xx acknowledges the event, 4xx rejects it, 5xx asks for a redelivery
+ */
+export interface WebhookHandlerResult {
+    status: number
+    body: { received: boolean; duplicate?: boolean; error?: string }
+    event?: WebhookEvent
+}
+
+/**
+ * Framework-agnostic webhook handler
+ */
+export type WebhookHandler = (
+    rawBody: WebhookRawBody,
+    headers: WebhookHeaders,
+) => Promise<WebhookHandlerResult>
+
+/**
+ * Dispatch a verified event to its typed callback
+ */
+async function dispatch(event: WebhookEvent, options: WebhookHandlerOptions): Promise<void> {
+    await options.onEvent?.(event)
+
+    switch (event.type) {
+        case 'invoice.pending':
+            return options.onInvoicePending?.(event as InvoiceWebhookEvent<'invoice.pending'>)
+        case 'invoice.sent':
+            return options.onInvoiceSent?.(event as InvoiceWebhookEvent<'invoice.sent'>)
+        case 'invoice.accepted':
+            return options.onInvoiceAccepted?.(event as InvoiceWebhookEvent<'invoice.accepted'>)
+        case 'invoice.accepted_with_warnings':
+            return options.onInvoiceAcceptedWithWarnings?.(
+                event as InvoiceWebhookEvent<'invoice.accepted_with_warnings'>,
+            )
+        case 'invoice.rejected':
+            return options.onInvoiceRejected?.(event as InvoiceWebhookEvent<'invoice.rejected'>)
+        case 'invoice.failed':
+            return options.onInvoiceFailed?.(event as InvoiceWebhookEvent<'invoice.failed'>)
+        case 'batch.status_changed':
+            return options.onBatchStatusChanged?.(event)
+    }
+}
+
+/**
+ * Call `onError` without letting it fail the response
+ */
+export function reportWebhookError(
+    options: WebhookHandlerOptions,
+    error: Error,
+    event?: WebhookEvent,
+): void {
+    try {
+        options.onError?.(error, event)
+    } catch {
+        // The response must still be sent
+    }
+}
+
+/**
+ * Create a framework-agnostic webhook handler
+ * Verifies the event, skips duplicates, dispatches it and returns the response to send
+ *
+ * @example
+ * ```typescript
+ * const handle = createWebhookHandler({
+ *   secret: process.env.INVO_WEBHOOK_SECRET!,
+ *   onInvoiceAccepted: async (event) => markAsAccepted(event.data.invoiceId),
+ * })
+ *
+ * const { status, body } = await handle(rawBody, headers)
+ * ```
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): WebhookHandler {
+    return async (rawBody, headers) => {
+        let event: WebhookEvent
+        try {
+            event = constructEvent(rawBody, headers, options.secret, {
+                toleranceSeconds: options.toleranceSeconds,
+                signatureHeader: options.signatureHeader,
+            })
+        } catch (error) {
+            const err = error instanceof Error ? error : new WebhookError(String(error))
+            reportWebhookError(options, err)
+            return { status: 400, body: { received: false, error: err.message } }
+        }
+
+        let claimed = false
+        try {
+            if (options.store) {
+                if (!(await options.store.add(event.id))) {
+                    return { status: 200, body: { received: true, duplicate: true }, event }
+                }
+                claimed = true
+            }
+
+            await dispatch(event, options)
+
+            return { status: 200, body: { received: true }, event }
+        } catch (error) {
+            // Let INVO redeliver the event
+            if (claimed) {
+                await Promise.resolve(options.store?.delete(event.id)).catch(() => {})
+            }
+
+            const err = error instanceof Error ? error : new Error(String(error))
+            reportWebhookError(options, err, event)
+            return {
+                status: 500,
+                body: { received: false, error: 'Webhook handler failed' },
+                event,
+            }
+        }
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Webhooks
+ * Signature verification and typed events for INVO webhook callbacks
+ */
+
+export {
+    constructEvent,
+    computeWebhookSignature,
+    signWebhookPayload,
+    getHeader,
+    WEBHOOK_SIGNATURE_HEADER,
+    DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+} from './signature'
+export type { ConstructEventOptions, WebhookRawBody } from './signature'
+
+export { createWebhookHandler } from './handler'
+export type { WebhookHandler, WebhookHandlerOptions, WebhookHandlerResult } from './handler'
+
+export { MemoryWebhookEventStore } from './store'
+export type { WebhookEventStore, MemoryWebhookEventStoreOptions } from './store'
+
+export {
+    createNodeWebhookHandler,
+    createExpressWebhookHandler,
+    createFastifyWebhookHandler,
+    createFastifyWebhookPlugin,
+} from './adapters'
+export type {
+    ExpressLikeRequest,
+    ExpressLikeResponse,
+    FastifyLikeRequest,
+    FastifyLikeReply,
+    FastifyLikeInstance,
+} from './adapters'
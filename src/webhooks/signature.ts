@@ -0,0 +1,247 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { WebhookPayloadError, WebhookSignatureError, WebhookTimestampError } from '../errors'
+import type {
+    InvoiceWebhookData,
+    InvoiceWebhookEvent,
+    InvoiceWebhookEventType,
+    WebhookEvent,
+    WebhookEventType,
+    WebhookHeaders,
+} from '../types/webhook.types'
+
+/**
+ * Header carrying the webhook signature
+ * Format: `t=<unix timestamp>,v1=<hex HMAC-SHA256>` (several `v1` entries during secret rotation)
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-invo-signature'
+
+/**
+ * Default tolerance between the signed timestamp and the current time
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300
+
+const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+    'invoice.pending',
+    'invoice.sent',
+    'invoice.accepted',
+    'invoice.accepted_with_warnings',
+    'invoice.rejected',
+    'invoice.failed',
+    'batch.status_changed',
+]
+
+/**
+ * Options for `constructEvent`
+ */
+export interface ConstructEventOptions {
+    /**
+     * Maximum age of the signed timestamp in seconds (0 disables the check)
+     * @default 300
+     */
+    toleranceSeconds?: number
+
+    /**
+     * Header carrying the signature
+     * @default 'x-invo-signature'
+     */
+    signatureHeader?: string
+
+    /**
+     * Current time in seconds, for testing
+     */
+    now?: number
+}
+
+/**
+ * Raw request body as received, before any JSON parsing
+ */
+export type WebhookRawBody = string | Uint8Array
+
+function bodyToString(rawBody: WebhookRawBody): string {
+    return typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody)
+}
+
+/**
+ * Read a header value from a plain object or `Headers`
+ */
+export function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+    if (typeof (headers as Headers).get === 'function') {
+        return (headers as Headers).get(name) ?? undefined
+    }
+
+    const record = headers as Record<string, string | string[] | undefined>
+    const key = Object.keys(record).find((header) => header.toLowerCase() === name)
+    const value = key ? record[key] : undefined
+    return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a payload
+ */
+export function computeWebhookSignature(
+    rawBody: WebhookRawBody,
+    timestamp: number,
+    secret: string,
+): string {
+    return createHmac('sha256', secret)
+        .update(`${timestamp}.${bodyToString(rawBody)}`)
+        .digest('hex')
+}
+
+/**
+ * Build a signature header value, useful to test webhook handlers
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify(event)
+ * const signature = signWebhookPayload(body, process.env.INVO_WEBHOOK_SECRET!)
+ * await fetch('http://localhost:3000/webhooks/invo', {
+ *   method: 'POST',
+ *   headers: { 'x-invo-signature': signature },
+ *   body,
+ * })
+ * ```
+ */
+export function signWebhookPayload(
+    rawBody: WebhookRawBody,
+    secret: string,
+    timestamp = Math.floor(Date.now() / 1000),
+): string {
+    return `t=${timestamp},v1=${computeWebhookSignature(rawBody, timestamp, secret)}`
+}
+
+function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } {
+    let timestamp = NaN
+    const signatures: string[] = []
+
+    for (const part of header.split(',')) {
+        const [key, value] = part.trim().split('=', 2)
+        if (key === 't') timestamp = Number(value)
+        if (key === 'v1' && value) signatures.push(value)
+    }
+
+    if (!Number.isInteger(timestamp) || signatures.length === 0) {
+        throw new WebhookSignatureError('Malformed webhook signature header')
+    }
+
+    return { timestamp, signatures }
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a, 'utf8')
+    const bufferB = Buffer.from(b, 'utf8')
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Typed event from a webhook body
+ * Accepts the invoice status body posted to `store()` callbacks (`{ invoiceId, status, data }`)
+ * as well as full event envelopes (`{ id, type, createdAt, data }`)
+ *
+ * @param timestamp - Signed timestamp, used as the creation date of status deliveries
+ */
+function toWebhookEvent(payload: unknown, timestamp: number): WebhookEvent {
+    if (!isRecord(payload)) {
+        throw new WebhookPayloadError('Webhook payload is not a valid INVO event')
+    }
+
+    if (typeof payload.invoiceId === 'string' && typeof payload.status === 'string') {
+        const type = `invoice.${payload.status.toLowerCase()}` as InvoiceWebhookEventType
+        if (!WEBHOOK_EVENT_TYPES.includes(type)) {
+            throw new WebhookPayloadError(`Unknown invoice status "${payload.status}"`)
+        }
+
+        const details = isRecord(payload.data) ? payload.data : undefined
+        const data = {
+            ...details,
+            invoiceId: payload.invoiceId,
+            status: payload.status,
+            ...(details && { details }),
+        } as InvoiceWebhookData
+
+        const event: InvoiceWebhookEvent = {
+            // Distinct for every status change, even a repeated one (e.g. REJECTED twice)
+            id:
+                typeof payload.id === 'string'
+                    ? payload.id
+                    : `${data.invoiceId}:${data.status}:${timestamp}`,
+            type,
+            createdAt: new Date(timestamp * 1000).toISOString(),
+            data,
+        }
+        return event
+    }
+
+    if (
+        typeof payload.id === 'string' &&
+        WEBHOOK_EVENT_TYPES.includes(payload.type as WebhookEventType) &&
+        isRecord(payload.data)
+    ) {
+        return payload as unknown as WebhookEvent
+    }
+
+    throw new WebhookPayloadError('Webhook payload is not a valid INVO event')
+}
+
+/**
+ * Verify a webhook request and return the typed event
+ *
+ * The signature must be computed over the raw body: capture it before any JSON body parser runs.
+ *
+ * @param rawBody - Raw request body
+ * @param headers - Request headers
+ * @param secret - Webhook signing secret
+ * @throws WebhookSignatureError if the signature is missing or does not match
+ * @throws WebhookTimestampError if the timestamp is outside the tolerance window
+ * @throws WebhookPayloadError if the body is not a valid event
+ *
+ * @example
+ * ```typescript
+ * const event = constructEvent(rawBody, req.headers, process.env.INVO_WEBHOOK_SECRET!)
+ * if (event.type === 'invoice.rejected') {
+ *   console.log(event.data.invoiceId, event.data.errors)
+ * }
+ * ```
+ */
+export function constructEvent(
+    rawBody: WebhookRawBody,
+    headers: WebhookHeaders,
+    secret: string,
+    options: ConstructEventOptions = {},
+): WebhookEvent {
+    if (!secret) {
+        throw new WebhookSignatureError('Webhook secret is required')
+    }
+
+    const headerName = (options.signatureHeader ?? WEBHOOK_SIGNATURE_HEADER).toLowerCase()
+    const header = getHeader(headers, headerName)
+    if (!header) {
+        throw new WebhookSignatureError(`Missing ${headerName} header`)
+    }
+
+    const { timestamp, signatures } = parseSignatureHeader(header)
+    const expected = computeWebhookSignature(rawBody, timestamp, secret)
+
+    if (!signatures.some((signature) => safeEqual(signature, expected))) {
+        throw new WebhookSignatureError()
+    }
+
+    const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+    const now = options.now ?? Math.floor(Date.now() / 1000)
+    if (tolerance > 0 && Math.abs(now - timestamp) > tolerance) {
+        throw new WebhookTimestampError()
+    }
+
+    let payload: unknown
+    try {
+        payload = JSON.parse(bodyToString(rawBody))
+    } catch {
+        throw new WebhookPayloadError('Webhook body is not valid JSON')
+    }
+
+    return toWebhookEvent(payload, timestamp)
+}
@@ -0,0 +1,71 @@
+/**
+ * Store used to dedupe redelivered webhook events
+ * Implement it on top of Redis, a database, etc. to share it across processes
+ */
+export interface WebhookEventStore {
+    /**
+     * Record the event, returning false if it was already recorded
+     * Must check and record in one atomic step (e.g. Redis `SET NX`), so concurrent
+     * redeliveries cannot both be processed
+     */
+    add(eventId: string): Promise<boolean> | boolean
+
+    /**
+     * Forget the event, so a redelivery is processed again
+     * Called when the callbacks of the event fail
+     */
+    delete(eventId: string): Promise<void> | void
+}
+
+/**
+ * Options for `MemoryWebhookEventStore`
+ */
+export interface MemoryWebhookEventStoreOptions {
+    /**
+     * How long processed event IDs are remembered, in milliseconds
+     * @default 86400000 (24 hours)
+     */
+    ttlMs?: number
+
+    /**
+     * Maximum number of remembered event IDs (oldest are evicted first)
+     * @default 10000
+     */
+    maxSize?: number
+}
+
+/**
+ * In-memory webhook event store
+ * Only dedupes within a single process
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+    private readonly events = new Map<string, number>()
+    private readonly ttlMs: number
+    private readonly maxSize: number
+
+    constructor(options: MemoryWebhookEventStoreOptions = {}) {
+        this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000
+        this.maxSize = options.maxSize ?? 10000
+    }
+
+    add(eventId: string): boolean {
+        const expiresAt = this.events.get(eventId)
+        if (expiresAt !== undefined && expiresAt >= Date.now()) return false
+
+        this.events.delete(eventId)
+        this.events.set(eventId, Date.now() + this.ttlMs)
+
+        // Map keeps insertion order, so the first key is the oldest
+        while (this.events.size > this.maxSize) {
+            const oldest = this.events.keys().next().value
+            if (oldest === undefined) break
+            this.events.delete(oldest)
+        }
+
+        return true
+    }
+
+    delete(eventId: string): void {
+        this.events.delete(eventId)
+    }
+}
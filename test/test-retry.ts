@@ -0,0 +1,118 @@
+/**
+ * Test script for INVO SDK - Retry backoff
+ *
+ * Checks computeBackoffDelay for every jitter mode, the retry policy defaults and
+ * Retry-After parsing. Runs offline, no credentials needed
+ *
+ * Usage:
+ * npx tsx test/test-retry.ts
+ */
+
+import {
+    computeBackoffDelay,
+    DEFAULT_RETRY_POLICY,
+    parseRetryAfter,
+    resolveRetryPolicy,
+} from '../src/retry'
+import type { RetryPolicy } from '../src/retry'
+
+let failures = 0
+
+function check(description: string, passed: boolean, details?: unknown) {
+    if (passed) {
+        console.log(`  ✅ ${description}`)
+    } else {
+        failures++
+        console.error(`  ❌ ${description}`, details ?? '')
+    }
+}
+
+/**
+ * Run `fn` with Math.random pinned to `value`
+ */
+function withRandom<T>(value: number, fn: () => T): T {
+    const random = Math.random
+    Math.random = () => value
+    try {
+        return fn()
+    } finally {
+        Math.random = random
+    }
+}
+
+function delays(policy: RetryPolicy, attempts: number): number[] {
+    return Array.from({ length: attempts }, (_, i) => computeBackoffDelay(policy, i + 1))
+}
+
+function main() {
+    console.log('🚀 Starting INVO SDK Retry Tests\n')
+
+    const none: RetryPolicy = { ...DEFAULT_RETRY_POLICY, jitter: 'none', maxDelayMs: 5000 }
+
+    console.log('📈 Test 1: Exponential backoff without jitter')
+    const sequence = delays(none, 6)
+    check(
+        'Doubles from baseDelayMs and stops at maxDelayMs',
+        sequence.join() === '500,1000,2000,4000,5000,5000',
+        sequence,
+    )
+    check(
+        'Large attempt numbers stay capped',
+        computeBackoffDelay(none, 100) === 5000,
+        computeBackoffDelay(none, 100),
+    )
+
+    console.log('\n🎲 Test 2: Full jitter')
+    const full: RetryPolicy = { ...none, jitter: 'full' }
+    check('Lower bound is 0', withRandom(0, () => computeBackoffDelay(full, 3)) === 0)
+    const fullMax = withRandom(0.999999, () => computeBackoffDelay(full, 3))
+    check('Upper bound stays below the exponential delay', fullMax === 1999, fullMax)
+    const fullCapped = withRandom(0.999999, () => computeBackoffDelay(full, 10))
+    check('Upper bound stays below maxDelayMs', fullCapped === 4999, fullCapped)
+
+    const samples = Array.from({ length: 1000 }, () => computeBackoffDelay(full, 4))
+    check(
+        'Random delays are whole milliseconds within range',
+        samples.every((delay) => Number.isInteger(delay) && delay >= 0 && delay < 4000),
+    )
+
+    console.log('\n🎲 Test 3: Equal jitter')
+    const equal: RetryPolicy = { ...none, jitter: 'equal' }
+    const equalMin = withRandom(0, () => computeBackoffDelay(equal, 3))
+    check('Lower bound is half the exponential delay', equalMin === 1000, equalMin)
+    const equalMax = withRandom(0.999999, () => computeBackoffDelay(equal, 3))
+    check('Upper bound stays below the exponential delay', equalMax === 1999, equalMax)
+
+    console.log('\n⚙️  Test 4: Policy resolution')
+    check('Defaults are used without config', resolveRetryPolicy().baseDelayMs === 500)
+    const partial = resolveRetryPolicy({ baseDelayMs: undefined, maxDelayMs: 1000 })
+    check(
+        'Undefined options keep their default',
+        partial.baseDelayMs === 500 && partial.maxDelayMs === 1000,
+        partial,
+    )
+    check('false disables retries', resolveRetryPolicy(false).maxAttempts === 1)
+    check('maxAttempts below 1 becomes 1', resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts === 1)
+
+    console.log('\n⏳ Test 5: Retry-After')
+    check('Seconds are converted to milliseconds', parseRetryAfter('120') === 120000)
+    check('Fractional seconds are accepted', parseRetryAfter('1.5') === 1500)
+    check('Missing header returns null', parseRetryAfter(null) === null)
+    check('Invalid header returns null', parseRetryAfter('soon') === null)
+    check('Past HTTP dates become 0', parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT') === 0)
+    const future = parseRetryAfter(new Date(Date.now() + 60000).toUTCString())
+    check(
+        'Future HTTP dates become the remaining time',
+        future !== null && future > 58000 && future <= 60000,
+        future,
+    )
+
+    console.log('')
+    if (failures > 0) {
+        console.error(`❌ ${failures} check(s) failed`)
+        process.exit(1)
+    }
+    console.log('🎉 All retry tests passed!')
+}
+
+main()
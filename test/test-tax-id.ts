@@ -0,0 +1,87 @@
+/**
+ * Test script for INVO SDK - Tax ID validation
+ *
+ * Checks NIF/NIE/CIF check characters and EU VAT numbers against known-good
+ * and known-bad values. Runs offline, no credentials needed
+ *
+ * Usage:
+ * npx tsx test/test-tax-id.ts
+ */
+
+import { normalizeTaxId, validateTaxId } from '../src/tax-id'
+import type { TaxIdKind } from '../src/tax-id'
+
+let failures = 0
+
+function check(description: string, passed: boolean, details?: unknown) {
+    if (passed) {
+        console.log(`  ✅ ${description}`)
+    } else {
+        failures++
+        console.error(`  ❌ ${description}`, details ?? '')
+    }
+}
+
+function expectValid(value: string, kind: TaxIdKind) {
+    const result = validateTaxId(value)
+    check(`${value} is a valid ${kind}`, result.valid && result.kind === kind, result)
+}
+
+function expectInvalid(value: string) {
+    const result = validateTaxId(value)
+    check(`${value} is rejected`, !result.valid && Boolean(result.reason), result)
+}
+
+function main() {
+    console.log('🚀 Starting INVO SDK Tax ID Tests\n')
+
+    console.log('🪪 Test 1: NIF')
+    expectValid('12345678Z', 'NIF')
+    expectValid('00000000T', 'NIF')
+    expectValid('99999999R', 'NIF')
+    expectInvalid('12345678A')
+    expectInvalid('00000000R')
+    expectInvalid('1234567Z')
+
+    console.log('\n🪪 Test 2: NIE')
+    expectValid('X1234567L', 'NIE')
+    expectValid('Y1234567X', 'NIE')
+    expectValid('Z1234567R', 'NIE')
+    expectInvalid('X1234567A')
+    expectInvalid('Y1234567L')
+
+    console.log('\n🏢 Test 3: CIF')
+    expectValid('A28015865', 'CIF') // digit control
+    expectValid('A58818501', 'CIF')
+    expectValid('B65410011', 'CIF')
+    expectValid('Q2826000H', 'CIF') // letter control
+    expectValid('P0800000B', 'CIF')
+    expectInvalid('A28015866') // wrong digit
+    expectInvalid('B12345678')
+    expectInvalid('A2801586E') // type A needs a digit
+    expectInvalid('Q28260008') // type Q needs a letter
+    expectInvalid('S2800000E')
+
+    console.log('\n🧹 Test 4: Normalisation')
+    check(
+        'ES prefix, spaces and dashes are stripped',
+        normalizeTaxId('es-a 2801586-5') === 'A28015865',
+    )
+    expectValid('ES A28015865', 'CIF')
+    expectValid('12.345.678-z', 'NIF')
+
+    console.log('\n🇪🇺 Test 5: EU VAT numbers')
+    expectValid('DE136695976', 'EU-VAT')
+    expectInvalid('DE136695977')
+    expectInvalid('XX123456789')
+    expectInvalid('')
+
+    console.log('')
+    if (failures > 0) {
+        console.error(`❌ ${failures} check(s) failed`)
+        process.exit(1)
+    }
+    console.log('🎉 All tax ID tests passed!')
+}
+
+main()
@@ -0,0 +1,216 @@
+/**
+ * Test script for INVO SDK - Local invoice validation
+ *
+ * Checks validateInvoice against a known-good invoice and one broken field at a time.
+ * Runs offline, no credentials needed
+ *
+ * Usage:
+ * npx tsx test/test-validation.ts
+ */
+
+import { validateInvoice } from '../src/validation'
+import type { InvoiceValidationCode } from '../src/validation'
+import type { CreateInvoiceDto } from '../src/types'
+
+let failures = 0
+
+function check(description: string, passed: boolean, details?: unknown) {
+    if (passed) {
+        console.log(`  ✅ ${description}`)
+    } else {
+        failures++
+        console.error(`  ❌ ${description}`, details ?? '')
+    }
+}
+
+const VALID_INVOICE: CreateInvoiceDto = {
+    issueDate: '2024-03-15',
+    invoiceNumber: 'FAC-2024-001',
+    externalId: 'order-001',
+    totalAmount: 1815.5,
+    customerName: 'Test Customer SL',
+    customerTaxId: 'B65410011',
+    emitterName: 'Test Emitter SL',
+    emitterTaxId: 'A28015865',
+    type: 'F1',
+    description: 'Factura de prueba',
+    taxLines: [
+        { taxType: '01', taxRate: 21, baseAmount: 1000, taxAmount: 210 },
+        { taxType: '01', taxRate: 10, baseAmount: 500, taxAmount: 50 },
+        { taxType: '03', taxRate: 7, baseAmount: 50, taxAmount: 3.5 },
+        { taxRate: 0, baseAmount: 2, taxAmount: 0 },
+    ],
+}
+
+function expectValid(description: string, data: CreateInvoiceDto) {
+    const result = validateInvoice(data)
+    check(description, result.valid && result.issues.length === 0, result.issues)
+}
+
+function expectIssue(
+    description: string,
+    data: CreateInvoiceDto,
+    code: InvoiceValidationCode,
+    field: string,
+) {
+    const { valid, issues } = validateInvoice(data)
+    check(
+        description,
+        !valid && issues.length === 1 && issues[0].code === code && issues[0].field === field,
+        issues,
+    )
+}
+
+function main() {
+    console.log('🚀 Starting INVO SDK Invoice Validation Tests\n')
+
+    console.log('✔️  Test 1: Known-good invoices')
+    expectValid('Valid invoice passes', VALID_INVOICE)
+    expectValid('Timestamps with offsets pass', {
+        ...VALID_INVOICE,
+        issueDate: '2024-03-15T10:30:00.000+01:00',
+    })
+    expectValid('Floating point sums are compared in cents', {
+        ...VALID_INVOICE,
+        totalAmount: 0.3,
+        taxLines: [{ taxRate: 0, baseAmount: 0.1, taxAmount: 0, surchargeAmount: 0.2 }],
+    })
+    expectValid('Other taxes (04) accept any rate', {
+        ...VALID_INVOICE,
+        totalAmount: 106.5,
+        taxLines: [{ taxType: '04', taxRate: 6.5, baseAmount: 100, taxAmount: 6.5 }],
+    })
+    expectValid('Equivalence surcharge passes', {
+        ...VALID_INVOICE,
+        totalAmount: 126.2,
+        taxLines: [
+            {
+                taxRate: 21,
+                baseAmount: 100,
+                taxAmount: 21,
+                surchargeRate: 5.2,
+                surchargeAmount: 5.2,
+            },
+        ],
+    })
+    expectValid('Rectifying invoice with rectified IDs passes', {
+        ...VALID_INVOICE,
+        type: 'R1',
+        rectifiedInvoiceIds: ['inv_1'],
+    })
+
+    console.log('\n🚫 Test 2: Known-bad invoices')
+    expectIssue(
+        'Forbidden characters in the invoice number',
+        { ...VALID_INVOICE, invoiceNumber: 'FAC<001>' },
+        'INVALID_INVOICE_NUMBER',
+        'invoiceNumber',
+    )
+    expectIssue(
+        'Non ISO 8601 issue date',
+        { ...VALID_INVOICE, issueDate: '15/03/2024' },
+        'INVALID_ISSUE_DATE',
+        'issueDate',
+    )
+    expectIssue(
+        'Impossible issue date',
+        { ...VALID_INVOICE, issueDate: '2024-13-45' },
+        'INVALID_ISSUE_DATE',
+        'issueDate',
+    )
+    expectIssue(
+        'Rectifying invoice without rectified IDs',
+        { ...VALID_INVOICE, type: 'R4' },
+        'MISSING_RECTIFIED_INVOICES',
+        'rectifiedInvoiceIds',
+    )
+    expectIssue(
+        'Total off by one cent',
+        { ...VALID_INVOICE, totalAmount: 1815.51 },
+        'TOTAL_MISMATCH',
+        'totalAmount',
+    )
+    expectIssue(
+        'IVA rate not allowed',
+        {
+            ...VALID_INVOICE,
+            totalAmount: 107,
+            taxLines: [{ taxRate: 7, baseAmount: 100, taxAmount: 7 }],
+        },
+        'INVALID_TAX_RATE',
+        'taxLines.0.taxRate',
+    )
+    expectIssue(
+        'IGIC rate not allowed',
+        {
+            ...VALID_INVOICE,
+            totalAmount: 121,
+            taxLines: [{ taxType: '03', taxRate: 21, baseAmount: 100, taxAmount: 21 }],
+        },
+        'INVALID_TAX_RATE',
+        'taxLines.0.taxRate',
+    )
+    expectIssue(
+        'Unknown tax type is reported instead of throwing',
+        {
+            ...VALID_INVOICE,
+            totalAmount: 121,
+            taxLines: [
+                {
+                    taxType: '05' as CreateInvoiceDto['taxLines'][number]['taxType'],
+                    taxRate: 21,
+                    baseAmount: 100,
+                    taxAmount: 21,
+                },
+            ],
+        },
+        'INVALID_TAX_TYPE',
+        'taxLines.0.taxType',
+    )
+    expectIssue(
+        'Surcharge rate not allowed',
+        {
+            ...VALID_INVOICE,
+            totalAmount: 124,
+            taxLines: [
+                {
+                    taxRate: 21,
+                    baseAmount: 100,
+                    taxAmount: 21,
+                    surchargeRate: 3,
+                    surchargeAmount: 3,
+                },
+            ],
+        },
+        'INVALID_SURCHARGE_RATE',
+        'taxLines.0.surchargeRate',
+    )
+    expectIssue(
+        'Missing tax lines',
+        { ...VALID_INVOICE, taxLines: [] },
+        'MISSING_TAX_LINES',
+        'taxLines',
+    )
+
+    const { issues } = validateInvoice({
+        ...VALID_INVOICE,
+        invoiceNumber: 'A="1"',
+        issueDate: 'yesterday',
+        totalAmount: 1,
+    })
+    check(
+        'Every issue is reported at once',
+        issues.map((issue) => issue.code).join() ===
+            'INVALID_INVOICE_NUMBER,INVALID_ISSUE_DATE,TOTAL_MISMATCH',
+        issues,
+    )
+
+    console.log('')
+    if (failures > 0) {
+        console.error(`❌ ${failures} check(s) failed`)
+        process.exit(1)
+    }
+    console.log('🎉 All invoice validation tests passed!')
+}
+
+main()
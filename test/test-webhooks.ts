@@ -0,0 +1,178 @@
+/**
+ * Test script for INVO SDK - Webhook signature verification
+ *
+ * Checks constructEvent against a known signature, tampered bodies, wrong secrets,
+ * malformed headers and the timestamp tolerance. Runs offline, no credentials needed
+ *
+ * Usage:
+ * npx tsx test/test-webhooks.ts
+ */
+
+import { constructEvent, signWebhookPayload } from '../src/webhooks/signature'
+import { WebhookPayloadError, WebhookSignatureError, WebhookTimestampError } from '../src/errors'
+
+const SECRET = 'whsec_test'
+const TIMESTAMP = 1700000000
+const BODY = '{"invoiceId":"inv_123","status":"REJECTED","data":{"errors":["NIF no identificado"]}}'
+// HMAC-SHA256 of `${TIMESTAMP}.${BODY}` with SECRET, computed independently
+const SIGNATURE = '46317ec4b2793a1ff9c6042068db17222c89eb5312d412b283669a9e0819766a'
+const HEADER = `t=${TIMESTAMP},v1=${SIGNATURE}`
+
+let failures = 0
+
+function check(description: string, passed: boolean, details?: unknown) {
+    if (passed) {
+        console.log(`  ✅ ${description}`)
+    } else {
+        failures++
+        console.error(`  ❌ ${description}`, details ?? '')
+    }
+}
+
+function expectError(
+    description: string,
+    errorClass: new (...args: never[]) => Error,
+    run: () => unknown,
+) {
+    try {
+        const result = run()
+        check(description, false, result)
+    } catch (error) {
+        check(description, error instanceof errorClass, error)
+    }
+}
+
+function main() {
+    console.log('🚀 Starting INVO SDK Webhook Tests\n')
+
+    console.log('🔏 Test 1: Known-good signature')
+    check(
+        'signWebhookPayload matches the reference signature',
+        signWebhookPayload(BODY, SECRET, TIMESTAMP) === HEADER,
+    )
+
+    const event = constructEvent(BODY, { 'x-invo-signature': HEADER }, SECRET, { now: TIMESTAMP })
+    check('Event type comes from the status', event.type === 'invoice.rejected', event)
+    check(
+        'Event id includes the signed timestamp',
+        event.id === `inv_123:REJECTED:${TIMESTAMP}`,
+        event.id,
+    )
+    check(
+        'Event date is the signed timestamp',
+        event.createdAt === new Date(TIMESTAMP * 1000).toISOString(),
+    )
+    check(
+        'Raw Buffer bodies are accepted',
+        constructEvent(Buffer.from(BODY), { 'x-invo-signature': HEADER }, SECRET, {
+            now: TIMESTAMP,
+        }).id === event.id,
+    )
+    check(
+        'Header names are case-insensitive',
+        constructEvent(BODY, { 'X-Invo-Signature': HEADER }, SECRET, { now: TIMESTAMP }).id ===
+            event.id,
+    )
+    check(
+        'Any matching v1 signature is accepted',
+        constructEvent(
+            BODY,
+            { 'x-invo-signature': `t=${TIMESTAMP},v1=${'0'.repeat(64)},v1=${SIGNATURE}` },
+            SECRET,
+            { now: TIMESTAMP },
+        ).id === event.id,
+    )
+
+    console.log('\n🚫 Test 2: Known-bad signatures')
+    expectError('Tampered body is rejected', WebhookSignatureError, () =>
+        constructEvent(BODY.replace('inv_123', 'inv_124'), { 'x-invo-signature': HEADER }, SECRET, {
+            now: TIMESTAMP,
+        }),
+    )
+    expectError('Wrong secret is rejected', WebhookSignatureError, () =>
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, 'whsec_other', { now: TIMESTAMP }),
+    )
+    expectError('Re-signed timestamp is rejected', WebhookSignatureError, () =>
+        constructEvent(BODY, { 'x-invo-signature': `t=${TIMESTAMP + 1},v1=${SIGNATURE}` }, SECRET, {
+            now: TIMESTAMP,
+        }),
+    )
+    expectError('Missing header is rejected', WebhookSignatureError, () =>
+        constructEvent(BODY, {}, SECRET, { now: TIMESTAMP }),
+    )
+    expectError('Malformed header is rejected', WebhookSignatureError, () =>
+        constructEvent(BODY, { 'x-invo-signature': SIGNATURE }, SECRET, { now: TIMESTAMP }),
+    )
+    expectError('Empty secret is rejected', WebhookSignatureError, () =>
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, '', { now: TIMESTAMP }),
+    )
+
+    console.log('\n⏱️  Test 3: Timestamp tolerance')
+    check(
+        'Accepted at the edge of the default 300s window',
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, SECRET, { now: TIMESTAMP + 300 })
+            .id === event.id,
+    )
+    expectError('Rejected just past the default window', WebhookTimestampError, () =>
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, SECRET, { now: TIMESTAMP + 301 }),
+    )
+    expectError('Rejected when too far in the future', WebhookTimestampError, () =>
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, SECRET, { now: TIMESTAMP - 301 }),
+    )
+    expectError('Custom tolerance is applied', WebhookTimestampError, () =>
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, SECRET, {
+            now: TIMESTAMP + 61,
+            toleranceSeconds: 60,
+        }),
+    )
+    check(
+        'Tolerance 0 disables the check',
+        constructEvent(BODY, { 'x-invo-signature': HEADER }, SECRET, {
+            now: TIMESTAMP + 86400,
+            toleranceSeconds: 0,
+        }).id === event.id,
+    )
+
+    console.log('\n📦 Test 4: Payloads')
+    const unknownStatus = '{"invoiceId":"inv_123","status":"ARCHIVED"}'
+    expectError('Unknown status is rejected', WebhookPayloadError, () =>
+        constructEvent(
+            unknownStatus,
+            { 'x-invo-signature': signWebhookPayload(unknownStatus, SECRET, TIMESTAMP) },
+            SECRET,
+            { now: TIMESTAMP },
+        ),
+    )
+    expectError('Invalid JSON is rejected', WebhookPayloadError, () =>
+        constructEvent(
+            'not json',
+            { 'x-invo-signature': signWebhookPayload('not json', SECRET, TIMESTAMP) },
+            SECRET,
+            { now: TIMESTAMP },
+        ),
+    )
+    const envelope = JSON.stringify({
+        id: 'evt_1',
+        type: 'batch.status_changed',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        data: { batchId: 'b_1' },
+    })
+    check(
+        'Event envelopes keep their id',
+        constructEvent(
+            envelope,
+            { 'x-invo-signature': signWebhookPayload(envelope, SECRET, TIMESTAMP) },
+            SECRET,
+            { now: TIMESTAMP },
+        ).id === 'evt_1',
+    )
+
+    console.log('')
+    if (failures > 0) {
+        console.error(`❌ ${failures} check(s) failed`)
+        process.exit(1)
+    }
+    console.log('🎉 All webhook tests passed!')
+}
+
+main()